@@ -0,0 +1,26 @@
+import { X } from 'lucide-react'
+
+interface FilterPillProps {
+  icon: string
+  label: string
+  onRemove: () => void
+}
+
+/**
+ * An active filter shown under the search input, with a button to remove it
+ */
+export function FilterPill({ icon, label, onRemove }: FilterPillProps) {
+  return (
+    <span className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-primary/10 text-primary rounded-full text-sm font-medium border border-primary/20 hover:bg-primary/20 transition-colors">
+      <span className="text-xs">{icon}</span>
+      <span>{label}</span>
+      <button
+        onClick={onRemove}
+        className="ml-0.5 hover:bg-primary/30 rounded-full p-1 transition-colors flex items-center justify-center"
+        style={{ width: '16px', height: '16px' }}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </span>
+  )
+}
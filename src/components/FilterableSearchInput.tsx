@@ -1,14 +1,15 @@
 import { useEffect } from 'react'
-import { Search, X } from 'lucide-react'
+import { Search } from 'lucide-react'
 import { Input } from '@/components/ui/input'
+import { FilterPill } from './FilterPill'
 import { FilterPopup } from './FilterPopup'
 import { useFilterableInput } from '@/hooks/useFilterableInput'
-import type { FileTypeFilter } from '@/lib/persistentSearch'
+import type { FileTypeFilter, SearchFilters } from '@/lib/persistentSearch'
 
 interface FilterableSearchInputProps {
   placeholder?: string
   value?: string
-  onSearchChange?: (query: string, filters: FileTypeFilter[]) => void
+  onSearchChange?: (query: string, filters: SearchFilters) => void
   onKeyDown?: (e: React.KeyboardEvent) => void
   className?: string
   autoFocus?: boolean
@@ -38,7 +39,18 @@ export function FilterableSearchInput({
     inputRef
   } = useFilterableInput(value, onSearchChange)
 
-
+  // Every active filter as a pill; display is the token removing the pill takes out of the input
+  const activeFilters = [
+    ...parsedInput.filters.map(filter => ({ icon: getFilterIcon(filter.key), label: `@${filter.display}`, display: filter.display })),
+    ...parsedInput.folderScopes.map(scope => ({ icon: '📂', label: `in ${scope.folder}`, display: scope.display })),
+    ...parsedInput.people.map(person => ({
+      icon: person.role === 'owner' ? '👤' : '✏️',
+      label: `${person.role === 'owner' ? 'owner' : 'by'} ${person.person}`,
+      display: person.display
+    })),
+    ...parsedInput.drives.map(drive => ({ icon: '🗂️', label: drive.drive, display: drive.display })),
+    ...parsedInput.dates.map(date => ({ icon: '📅', label: date.label, display: date.display }))
+  ]
 
   // Handle native input change events
   const handleNativeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -92,6 +104,13 @@ export function FilterableSearchInput({
         )}
       </div>
 
+      {/* Query syntax error; the words are still searched meanwhile */}
+      {parsedInput.queryError && (
+        <p className="mt-1 px-1 text-xs text-destructive" role="alert">
+          {parsedInput.queryError.message}
+        </p>
+      )}
+
       {/* Filter Popup */}
       {showPopup && (
         <FilterPopup
@@ -103,25 +122,17 @@ export function FilterableSearchInput({
       )}
 
       {/* Active Filters as Styled Pills */}
-      {parsedInput.filters.length > 0 && (
+      {activeFilters.length > 0 && (
         <div className="mt-2 flex items-center gap-2">
           <span className="text-xs text-muted-foreground">Active filters:</span>
           <div className="flex items-center gap-1.5">
-            {parsedInput.filters.map((filter, index) => (
-              <span
-                key={`${filter.key}-${index}`}
-                className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-primary/10 text-primary rounded-full text-sm font-medium border border-primary/20 hover:bg-primary/20 transition-colors"
-              >
-                <span className="text-xs">{getFilterIcon(filter.key)}</span>
-                <span>@{filter.display}</span>
-                <button
-                  onClick={() => removeFilterByDisplay(filter.display)}
-                  className="ml-0.5 hover:bg-primary/30 rounded-full p-1 transition-colors flex items-center justify-center"
-                  style={{ width: '16px', height: '16px' }}
-                >
-                  <X className="h-3 w-3" />
-                </button>
-              </span>
+            {activeFilters.map((filter, index) => (
+              <FilterPill
+                key={`${filter.display}-${index}`}
+                icon={filter.icon}
+                label={filter.label}
+                onRemove={() => removeFilterByDisplay(filter.display)}
+              />
             ))}
           </div>
         </div>
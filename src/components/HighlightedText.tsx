@@ -0,0 +1,88 @@
+import type { MatchField, SearchMatch } from '~types'
+import { isBigramScript, normalizeWithOffsets } from '@/lib/textPipeline'
+
+interface HighlightedTextProps {
+  text: string
+  terms?: string[] // Matched search terms; their occurrences at the start of a word are marked
+  className?: string
+}
+
+/**
+ * Text with the spans that matched the search marked
+ */
+export function HighlightedText({ text, terms = [], className = '' }: HighlightedTextProps) {
+  const ranges = findMatchRanges(text, terms)
+  if (ranges.length === 0) {
+    return <span className={className}>{text}</span>
+  }
+
+  const parts: React.ReactNode[] = []
+  let position = 0
+  ranges.forEach(([start, end]) => {
+    if (start > position) parts.push(text.slice(position, start))
+    parts.push(
+      <mark key={start} className="bg-primary/15 text-foreground rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    )
+    position = end
+  })
+  if (position < text.length) parts.push(text.slice(position))
+
+  return <span className={className}>{parts}</span>
+}
+
+/**
+ * Terms of a search result that matched the given field
+ */
+export function getMatchedTerms(matches: SearchMatch[] | undefined, field: MatchField): string[] {
+  return (matches || []).filter(match => match.fields.includes(field)).map(match => match.term)
+}
+
+/**
+ * Where the terms occur in the text, sorted and merged where they overlap
+ * Terms are whole indexed words, normalized like the index does ("résumé" -> "resume"), so
+ * only occurrences starting a word count, including the parts of camelCase and letter/digit
+ * runs the index splits on ("Q3Plan" -> "q 3 plan"), and anywhere in CJK text
+ */
+function findMatchRanges(text: string, terms: string[]): Array<[number, number]> {
+  const { normalized, offsets } = normalizeWithOffsets(text)
+  const ranges: Array<[number, number]> = []
+
+  for (const term of terms) {
+    if (!term) continue
+    for (let index = normalized.indexOf(term); index !== -1; index = normalized.indexOf(term, index + 1)) {
+      const start = offsets[index]
+      // End after the whole character the term's last character came from ("ß" -> "ss"),
+      // and any accents on it
+      const last = offsets[index + term.length - 1]
+      let end = last + String.fromCodePoint(text.codePointAt(last)!).length
+      while (end < text.length && /\p{M}/u.test(text[end])) end++
+      if (isWordStart(text, start)) {
+        ranges.push([start, end])
+      }
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0])
+  const merged: Array<[number, number]> = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([...range])
+    }
+  }
+  return merged
+}
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true
+  const previous = text[index - 1]
+  const current = text[index]
+  if (isBigramScript(String.fromCodePoint(text.codePointAt(index)!))) return true
+  if (!/[\p{L}\p{N}\p{M}]/u.test(previous)) return true
+  if (/\p{Ll}/u.test(previous) && /\p{Lu}/u.test(current)) return true
+  return /\p{N}/u.test(previous) !== /\p{N}/u.test(current)
+}
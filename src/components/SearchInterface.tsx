@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { Fragment, useState, useEffect, useCallback, useMemo, useRef } from "react"
 import { Search, FileText, FileSpreadsheet, File } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
@@ -6,13 +6,16 @@ import { Input } from "@/components/ui/input"
 
 import { googleDriveService } from "@/lib/googleDrive"
 import { authService } from "@/lib/auth"
-import { searchService } from "@/lib/persistentSearch"
+import { searchClient, SearchCancelledError } from "@/lib/searchClient"
 import { changeSyncService } from "@/lib/changeSync"
-import { indexGoogleDriveJob } from "@/jobs/indexGoogleDrive"
+import { sourceRegistry } from "@/lib/sources"
+import { accountService, type AccountInfo } from "@/lib/accounts"
+import { indexSourcesJob, hasIndexCheckpoint } from "@/jobs/indexGoogleDrive"
 import { SettingsModal } from "@/components/SettingsModal"
 import { FilterableSearchInput } from "@/components/FilterableSearchInput"
+import { HighlightedText, getMatchedTerms } from "@/components/HighlightedText"
 import type { DriveFile, SearchState } from "~types"
-import type { FileTypeFilter, SearchFilters } from "@/lib/persistentSearch"
+import type { SearchFilters } from "@/lib/persistentSearch"
 
 interface SearchInterfaceProps {
   title?: string
@@ -45,12 +48,16 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
     error: undefined
   })
   const [isAuthenticated, setIsAuthenticated] = useState(false)
+  const [needsReauth, setNeedsReauth] = useState(false)
+  const [accounts, setAccounts] = useState<AccountInfo[]>([])
   const [isInitializing, setIsInitializing] = useState(true)
   const [isIndexed, setIsIndexed] = useState(false)
   const [isIndexing, setIsIndexing] = useState(false)
+  const [hasPendingIndex, setHasPendingIndex] = useState(false) // An interrupted index build can be resumed
   const [visibleCount, setVisibleCount] = useState(25) // Start with 25 visible items
   const [userEmail, setUserEmail] = useState<string | undefined>()
   const [selectedResultIndex, setSelectedResultIndex] = useState(0) // Track selected result for keyboard navigation
+  const [resultSections, setResultSections] = useState<Array<{ title: string; start: number }>>([]) // Headings of the empty-query view
   const scrollContainerRef = useRef<HTMLDivElement>(null)
   
   // Debounce search query with 300ms delay
@@ -61,31 +68,29 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
     const initializeApp = async () => {
       setIsInitializing(true)
       try {
-        // Initialize search service first
-        await searchService.initialize()
-        const searchStats = searchService.getStats()
+        // Initialize search service first (the index loads in a worker)
+        await searchClient.initialize()
+        const searchStats = await searchClient.getStats()
         setIsIndexed(searchStats.totalFiles > 0)
+        setHasPendingIndex(await hasIndexCheckpoint())
         
-        // Then initialize authentication
-        const authenticated = await authService.initialize()
+        // Then initialize authentication for the primary account and any added ones
+        await authService.initialize()
+        await accountService.initialize()
+        const authenticated = accountService.isAnyAuthenticated()
         setIsAuthenticated(authenticated)
+        setNeedsReauth(authService.needsReauth())
+        setAccounts(accountService.getAccounts())
         
         // Get user info if authenticated
-        if (authenticated) {
+        if (authService.isAuthenticated()) {
           const userInfo = await authService.getUserInfo()
           setUserEmail(userInfo?.email)
         }
         
         if (authenticated && searchStats.totalFiles > 0) {
           // If we have an index, load recent files from it
-          const recentFiles = searchService.search('', 20) // Empty query returns recent files
-          setSearchState({
-            query: "",
-            results: recentFiles,
-            hasMore: false,
-            isLoading: false,
-            error: undefined
-          })
+          await loadRecentFiles()
           
           // Start periodic change sync to keep index updated
           changeSyncService.startPeriodicSync()
@@ -107,8 +112,54 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
     initializeApp()
   }, [])
 
-  const handleSearch = useCallback(async (query: string, filters: FileTypeFilter[] = []) => {
-    if (!googleDriveService.isAuthenticated()) {
+  // Token refreshes happen in the background; only a failed silent refresh needs the user
+  useEffect(() => {
+    return accountService.onAccountsChange(() => {
+      const anyAuthenticated = accountService.isAnyAuthenticated()
+      setIsAuthenticated(anyAuthenticated)
+      setNeedsReauth(authService.needsReauth())
+      setAccounts(accountService.getAccounts())
+      if (!anyAuthenticated) {
+        changeSyncService.stopPeriodicSync()
+      }
+    })
+  }, [])
+
+  // What to show before anything is typed: recently opened files, then others' recent edits
+  const loadRecentFiles = useCallback(async (filters: SearchFilters = {}) => {
+    const ownEmails = [authService.getAccountEmail(), ...accountService.getAccounts().map(account => account.email)]
+      .filter((email): email is string => !!email)
+
+    try {
+      const { recentlyOpened, recentlyModified } = await searchClient.getRecentFiles(20, filters, ownEmails)
+      const sections = [
+        { title: "Recently opened", files: recentlyOpened },
+        { title: "Recently modified by others", files: recentlyModified }
+      ].filter(section => section.files.length > 0)
+
+      let start = 0
+      setResultSections(sections.map(section => {
+        const heading = { title: section.title, start }
+        start += section.files.length
+        return heading
+      }))
+      setSearchState({
+        query: "",
+        results: sections.flatMap(section => section.files),
+        hasMore: false,
+        isLoading: false,
+        error: undefined
+      })
+      setSelectedResultIndex(0)
+    } catch (error) {
+      // The user started typing; that search shows its own results
+      if (error instanceof SearchCancelledError) return
+      throw error
+    }
+  }, [])
+
+  const handleSearch = useCallback(async (query: string, filters: SearchFilters = {}) => {
+    if (!accountService.isAnyAuthenticated()) {
       setSearchState(prev => ({ ...prev, error: "Not authenticated" }))
       return
     }
@@ -119,10 +170,12 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
     try {
       let results: DriveFile[]
       
-      if (isIndexed) {
+      if (isIndexed && !query.trim()) {
+        await loadRecentFiles(filters)
+        return
+      } else if (isIndexed) {
         // Use lightning-fast persistent search with filters
-        const searchFilters: SearchFilters | undefined = filters.length > 0 ? { fileTypes: filters } : undefined
-        results = searchService.search(query.trim(), 1000, searchFilters) // Get up to 1000 results
+        results = await searchClient.search(query.trim(), 1000, filters) // Get up to 1000 results
       } else {
         // Fallback to direct API search if no index
         console.log('No search index available, using direct API search')
@@ -133,6 +186,7 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
         results = result.files
       }
       
+      setResultSections([])
       setSearchState(prev => ({
         ...prev,
         results,
@@ -143,15 +197,18 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
       // Reset selected index when results change
       setSelectedResultIndex(0)
     } catch (error) {
+      // A newer search replaced this one and will update the results
+      if (error instanceof SearchCancelledError) return
+
       setSearchState(prev => ({
         ...prev,
         isLoading: false,
         error: error instanceof Error ? error.message : "Search failed"
       }))
     }
-  }, [isIndexed])
+  }, [isIndexed, loadRecentFiles])
   // Handle search with filters from FilterableSearchInput
-  const handleFilterableSearch = useCallback((query: string, filters: FileTypeFilter[]) => {
+  const handleFilterableSearch = useCallback((query: string, filters: SearchFilters) => {
     // Don't update searchQuery here to avoid infinite loops
     if (isAuthenticated && !isInitializing) {
       setVisibleCount(25)
@@ -166,7 +223,7 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
     if (!scrollContainerRef.current || selectedResultIndex < 0) return
 
     const container = scrollContainerRef.current
-    const selectedElement = container.children[0]?.children[selectedResultIndex] as HTMLElement
+    const selectedElement = container.querySelector(`[data-result-index="${selectedResultIndex}"]`) as HTMLElement | null
     
     if (selectedElement) {
       const containerRect = container.getBoundingClientRect()
@@ -224,12 +281,15 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
         setUserEmail(userInfo?.email)
         
         // After authentication, check if we need to index
-        const searchStats = searchService.getStats()
+        const searchStats = await searchClient.getStats()
         if (searchStats.totalFiles === 0) {
           console.log('No search index found after authentication')
         } else {
           // Load recent files from index
-          await handleSearch("")
+          await loadRecentFiles()
+
+          // Resume keeping the index in sync (it stops when the session expires)
+          changeSyncService.startPeriodicSync()
         }
       }
     } catch (error) {
@@ -257,21 +317,14 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
 
     try {
       console.log('🚀 Starting Google Drive indexing...')
-      const result = await indexGoogleDriveJob({ force: true })
+      const result = await indexSourcesJob({ force: true })
       
       if (result.success) {
         setIsIndexed(true)
         console.log(`✅ Indexing completed: ${result.filesIndexed} files indexed`)
         
         // Load initial results from the new index
-        const recentFiles = searchService.search('', 20)
-        setSearchState({
-          query: "",
-          results: recentFiles,
-          hasMore: false,
-          isLoading: false,
-          error: undefined
-        })
+        await loadRecentFiles()
         
         // Start periodic change sync now that we have an index
         changeSyncService.startPeriodicSync()
@@ -287,15 +340,38 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
       }))
     } finally {
       setIsIndexing(false)
+      setHasPendingIndex(await hasIndexCheckpoint())
     }
   }
 
+  const handleAddAccount = async () => {
+    const email = await accountService.addAccount()
+    if (email) {
+      // The new account has no change tokens yet, so the sync indexes all of it
+      await changeSyncService.syncChanges()
+    }
+  }
+
+  const handleReauthenticateAccount = async (sourceId: string) => {
+    if (await accountService.reauthenticate(sourceId)) {
+      changeSyncService.startPeriodicSync()
+    }
+  }
+
+  const handleRemoveAccount = async (sourceId: string) => {
+    const removedIds = new Set(await accountService.removeAccount(sourceId))
+    setSearchState(prev => ({
+      ...prev,
+      results: prev.results.filter(file => !removedIds.has(file.id))
+    }))
+  }
+
   const handleSignOut = async () => {
     try {
       // Stop change sync when signing out
       changeSyncService.stopPeriodicSync()
       
-      await authService.signOut()
+      await accountService.signOutAll()
       setIsAuthenticated(false)
       setIsIndexed(false)
       setUserEmail(undefined)
@@ -314,16 +390,17 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
   const openFile = (file: DriveFile) => {
     // Track file usage for better ranking
     if (isIndexed) {
-      searchService.trackFileOpen(file.id)
+      searchClient.trackFileOpen(file.id, searchState.query)
     }
 
-    if (file.webViewLink) {
+    const url = sourceRegistry.getOpenUrl(file)
+    if (url) {
       if (typeof chrome !== "undefined" && chrome.tabs) {
         // Extension context
-        chrome.tabs.create({ url: file.webViewLink })
+        chrome.tabs.create({ url })
       } else {
         // Web context
-        window.open(file.webViewLink, "_blank")
+        window.open(url, "_blank")
       }
     } else {
       // Fallback: construct Drive URL from file ID
@@ -432,13 +509,15 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
       ) : !isAuthenticated ? (
         <div className="text-center space-y-6">
           <div className="space-y-2">
-            <h2 className="text-lg font-medium">Connect to Google Drive</h2>
+            <h2 className="text-lg font-medium">
+              {needsReauth ? "Google Drive session expired" : "Connect to Google Drive"}
+            </h2>
             <p className="text-sm text-muted-foreground">
-              Search your files instantly
+              {needsReauth ? "Sign in again to keep your index in sync" : "Search your files instantly"}
             </p>
           </div>
           <Button onClick={handleAuthenticate} disabled={isInitializing}>
-            {isInitializing ? "Connecting..." : "Connect Google Drive"}
+            {isInitializing ? "Connecting..." : needsReauth ? "Sign in again" : "Connect Google Drive"}
           </Button>
         </div>
       ) : !isIndexed ? (
@@ -450,7 +529,7 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
             </p>
           </div>
           <Button onClick={handleBuildIndex} disabled={isIndexing}>
-            {isIndexing ? "Building Index..." : "Build Index"}
+            {isIndexing ? "Building Index..." : hasPendingIndex ? "Resume Indexing" : "Build Index"}
           </Button>
           {isIndexing && (
             <p className="text-xs text-muted-foreground mt-2">
@@ -462,7 +541,7 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
         <div className="space-y-4">
           {/* Search Bar */}
           <FilterableSearchInput
-            placeholder="Search files... (try @docs, @sheets)"
+            placeholder="Search files... (try @docs, @in:folder, @thisweek)"
             value={searchQuery}
             onSearchChange={handleFilterableSearch}
             onKeyDown={handleKeyNavigation}
@@ -480,7 +559,14 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
                 
                 {/* Settings button */}
                 {isAuthenticated && (
-                  <SettingsModal onSignOut={handleSignOut} userEmail={userEmail} />
+                  <SettingsModal
+                    onSignOut={handleSignOut}
+                    userEmail={userEmail}
+                    accounts={accounts}
+                    onAddAccount={handleAddAccount}
+                    onReauthenticateAccount={handleReauthenticateAccount}
+                    onRemoveAccount={handleRemoveAccount}
+                  />
                 )}
               </>
             }
@@ -503,10 +589,12 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
           {/* Results List */}
           {searchState.results.length > 0 && (
             <div className="space-y-2">
-              {/* Results summary */}
-              <div className="text-xs text-muted-foreground px-1">
-                Showing {Math.min(visibleCount, searchState.results.length)} of {searchState.results.length} results
-              </div>
+              {/* Results summary (the empty-query view has section headings instead) */}
+              {resultSections.length === 0 && (
+                <div className="text-xs text-muted-foreground px-1">
+                  Showing {Math.min(visibleCount, searchState.results.length)} of {searchState.results.length} results
+                </div>
+              )}
               
               {/* Virtual scrolling container */}
               <div 
@@ -516,33 +604,74 @@ export function SearchInterface({ title = "Browser Spotlight" }: SearchInterface
                 <div className="space-y-1">
                   {/* Only render visible items */}
                   {searchState.results.slice(0, visibleCount).map((file, index) => (
-                    <div
-                      key={file.id}
-                      className={`flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-colors group ${
-                        index === selectedResultIndex 
-                          ? 'bg-primary/10 border border-primary/20' 
-                          : 'hover:bg-muted/50'
-                      }`}
-                      onClick={() => openFile(file)}
-                    >
-                      <div className="flex-shrink-0 group-hover:scale-110 transition-transform">
-                        {getFileIcon(file.mimeType)}
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <div className="font-medium text-sm truncate group-hover:text-foreground transition-colors">
-                          {file.name}
+                    <Fragment key={file.id}>
+                      {resultSections.filter(section => section.start === index).map(section => (
+                        <div key={section.title} className="px-1 pt-2 text-xs font-medium text-muted-foreground">
+                          {section.title}
                         </div>
-                        <div className="text-xs text-muted-foreground mt-0.5 flex items-center gap-2">
-                          <span>{getFileTypeLabel(file.mimeType)}</span>
-                          {file.modifiedTime && (
-                            <>
-                              <span className="text-muted-foreground/60">•</span>
-                              <span>Modified {formatModifiedTime(file.modifiedTime)}</span>
-                            </>
+                      ))}
+                      <div
+                        data-result-index={index}
+                        className={`flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-colors group ${
+                          index === selectedResultIndex 
+                            ? 'bg-primary/10 border border-primary/20' 
+                            : 'hover:bg-muted/50'
+                        }`}
+                        onClick={() => openFile(file)}
+                      >
+                        <div className="flex-shrink-0 group-hover:scale-110 transition-transform">
+                          {getFileIcon(file.mimeType)}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="font-medium text-sm truncate group-hover:text-foreground transition-colors">
+                            <HighlightedText text={file.name} terms={getMatchedTerms(file.matches, "name")} />
+                          </div>
+                          <div className="text-xs text-muted-foreground mt-0.5 flex items-center gap-2">
+                            <span>{getFileTypeLabel(file.mimeType)}</span>
+                            {file.driveName && (
+                              <>
+                                <span className="text-muted-foreground/60">•</span>
+                                <span className="truncate">{file.driveName}</span>
+                              </>
+                            )}
+                            {file.path && (
+                              <>
+                                <span className="text-muted-foreground/60">•</span>
+                                <HighlightedText
+                                  text={file.path}
+                                  terms={getMatchedTerms(file.matches, "path")}
+                                  className="truncate"
+                                />
+                              </>
+                            )}
+                            {file.modifiedTime && (
+                              <>
+                                <span className="text-muted-foreground/60">•</span>
+                                <span>Modified {formatModifiedTime(file.modifiedTime)}</span>
+                              </>
+                            )}
+                            {file.lastModifyingUser?.displayName && (
+                              <>
+                                <span className="text-muted-foreground/60">•</span>
+                                <span className="truncate">by {file.lastModifyingUser.displayName}</span>
+                              </>
+                            )}
+                          </div>
+                          {/* Passage of the file's text that matched the query */}
+                          {file.snippet && (
+                            <div className="text-xs text-muted-foreground/80 mt-0.5 line-clamp-2">
+                              <HighlightedText text={file.snippet} terms={getMatchedTerms(file.matches, "content")} />
+                            </div>
                           )}
                         </div>
+                        {/* Account badge when several accounts are connected */}
+                        {accounts.length > 1 && sourceRegistry.getForFile(file)?.account && (
+                          <span className="flex-shrink-0 max-w-[10rem] truncate rounded bg-muted px-1.5 py-0.5 text-[10px] text-muted-foreground">
+                            {sourceRegistry.getForFile(file)?.account}
+                          </span>
+                        )}
                       </div>
-                    </div>
+                    </Fragment>
                   ))}
                   
                   {/* Loading indicator for more results */}
@@ -1,5 +1,5 @@
-import { useState } from "react"
-import { Settings, LogOut, Monitor, Sun, Moon, User } from "lucide-react"
+import { useEffect, useState } from "react"
+import { Settings, LogOut, Monitor, Sun, Moon, User, Plus, X, HardDrive, History, FileText, SlidersHorizontal, RotateCcw } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
 import {
@@ -10,6 +10,7 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
 import {
   Select,
   SelectContent,
@@ -18,17 +19,117 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { useTheme } from "@/contexts/ThemeContext"
+import type { AccountInfo } from "@/lib/accounts"
+import { searchClient } from "@/lib/searchClient"
+import { contentIndexer } from "@/lib/contentIndexer"
+import { RANKING_FIELDS, type RankingConfig } from "@/lib/ranking"
+import type { StorageUsage } from "@/lib/storage"
 
 interface SettingsModalProps {
   onSignOut: () => Promise<void>
   userEmail?: string
+  accounts?: AccountInfo[]
+  onAddAccount?: () => Promise<void>
+  onReauthenticateAccount?: (sourceId: string) => Promise<void>
+  onRemoveAccount?: (sourceId: string) => Promise<void>
 }
 
-export function SettingsModal({ onSignOut, userEmail }: SettingsModalProps) {
+export function SettingsModal({
+  onSignOut,
+  userEmail,
+  accounts = [],
+  onAddAccount,
+  onReauthenticateAccount,
+  onRemoveAccount
+}: SettingsModalProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [isSigningOut, setIsSigningOut] = useState(false)
+  const [busyAccount, setBusyAccount] = useState<string | null>(null) // Source ID being added/removed
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null)
+  const [indexedFiles, setIndexedFiles] = useState(0)
+  const [usageCleared, setUsageCleared] = useState(false)
+  const [contentIndexing, setContentIndexing] = useState(false)
+  const [rankingDraft, setRankingDraft] = useState<Record<string, string>>({}) // Weights as typed
+  const [rankingSaved, setRankingSaved] = useState(false)
   const { theme, setTheme, actualTheme } = useTheme()
 
+  // Storage use changes as the index grows, so check it whenever settings open
+  useEffect(() => {
+    if (!isOpen) return
+    setUsageCleared(false)
+    setRankingSaved(false)
+    searchClient.getRankingConfig().then(showRanking)
+    contentIndexer.isEnabled().then(setContentIndexing)
+    searchClient.getStorageUsage().then(setStorageUsage)
+    searchClient.getStats().then(stats => setIndexedFiles(stats.totalFiles))
+  }, [isOpen])
+
+  const runAccountAction = async (sourceId: string, action?: (sourceId: string) => Promise<void>) => {
+    if (!action) return
+    setBusyAccount(sourceId)
+    try {
+      await action(sourceId)
+    } catch (error) {
+      console.error("Account action failed:", error)
+    } finally {
+      setBusyAccount(null)
+    }
+  }
+
+  const handleClearUsage = async () => {
+    try {
+      await searchClient.resetUsage()
+      setUsageCleared(true)
+    } catch (error) {
+      console.error("Clearing usage history failed:", error)
+    }
+  }
+
+  const showRanking = (config: RankingConfig) => {
+    setRankingDraft(Object.fromEntries(RANKING_FIELDS.map(({ key }) => [key, String(config[key])])))
+  }
+
+  const handleSaveRanking = async () => {
+    // Blank or invalid entries keep their saved value
+    const changes = Object.fromEntries(
+      Object.entries(rankingDraft)
+        .filter(([, value]) => value.trim() !== "")
+        .map(([key, value]) => [key, Number(value)])
+    )
+    try {
+      showRanking(await searchClient.updateRankingConfig(changes))
+      setRankingSaved(true)
+    } catch (error) {
+      console.error("Saving ranking weights failed:", error)
+    }
+  }
+
+  const handleResetRanking = async () => {
+    try {
+      showRanking(await searchClient.resetRankingConfig())
+      setRankingSaved(false)
+    } catch (error) {
+      console.error("Resetting ranking weights failed:", error)
+    }
+  }
+
+  const handleToggleContentIndexing = async () => {
+    const enabled = !contentIndexing
+    setContentIndexing(enabled)
+    try {
+      await contentIndexer.setEnabled(enabled)
+      if (enabled) {
+        // Start on the text right away instead of waiting for the next sync
+        contentIndexer.indexPendingContent().catch(error => {
+          console.error("Content indexing failed:", error)
+        })
+      }
+    } catch (error) {
+      console.error("Changing content indexing failed:", error)
+      setContentIndexing(!enabled)
+    }
+  }
+
   const handleSignOut = async () => {
     setIsSigningOut(true)
     try {
@@ -140,13 +241,58 @@ export function SettingsModal({ onSignOut, userEmail }: SettingsModalProps) {
           {/* Account Settings */}
           <div className="space-y-3">
             <div className="space-y-1">
-              <h4 className="text-sm font-medium">Account</h4>
-              {userEmail && (
+              <h4 className="text-sm font-medium">{accounts.length > 1 ? "Accounts" : "Account"}</h4>
+              {accounts.length <= 1 && userEmail && (
                 <p className="text-xs text-muted-foreground">
                   Signed in as {userEmail}
                 </p>
               )}
             </div>
+
+            {/* Connected accounts; each one can be signed out on its own */}
+            {accounts.length > 1 && (
+              <div className="space-y-1">
+                {accounts.map((account) => (
+                  <div key={account.sourceId} className="flex items-center gap-2 text-sm">
+                    <User className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                    <span className="flex-1 truncate">{account.email || "Google account"}</span>
+                    {account.needsReauth && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        disabled={busyAccount !== null}
+                        onClick={() => runAccountAction(account.sourceId, onReauthenticateAccount)}
+                      >
+                        Sign in again
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-muted-foreground hover:text-destructive"
+                      title={`Sign out of ${account.email || "this account"}`}
+                      disabled={busyAccount !== null}
+                      onClick={() => runAccountAction(account.sourceId, onRemoveAccount)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {onAddAccount && (
+              <Button
+                variant="outline"
+                onClick={() => runAccountAction("new", async () => onAddAccount())}
+                disabled={busyAccount !== null}
+                className="w-full justify-start"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                {busyAccount === "new" ? "Connecting..." : "Add Google account"}
+              </Button>
+            )}
             
             <Button 
               variant="destructive" 
@@ -155,10 +301,112 @@ export function SettingsModal({ onSignOut, userEmail }: SettingsModalProps) {
               className="w-full justify-start"
             >
               <LogOut className="h-4 w-4 mr-2" />
-              {isSigningOut ? "Signing out..." : "Sign out"}
+              {isSigningOut ? "Signing out..." : accounts.length > 1 ? "Sign out of all accounts" : "Sign out"}
             </Button>
           </div>
 
+          {/* Storage */}
+          {storageUsage && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <h4 className="text-sm font-medium">Storage</h4>
+                <p className="text-xs text-muted-foreground">
+                  Search index of {indexedFiles.toLocaleString()} files, stored in this browser.
+                </p>
+              </div>
+              <div className="flex items-center gap-2 text-sm">
+                <HardDrive className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span>
+                  {formatBytes(storageUsage.usage)} used of {formatBytes(storageUsage.quota)}
+                </span>
+              </div>
+            </div>
+          )}
+
+          {/* Full-text search over the text of Docs, Sheets, Slides and text files */}
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <h4 className="text-sm font-medium">File contents</h4>
+              <p className="text-xs text-muted-foreground">
+                Also search the text of Docs, Sheets, Slides and text files. Their text is downloaded and stored in this browser.
+              </p>
+            </div>
+            <Button
+              variant={contentIndexing ? "default" : "outline"}
+              onClick={handleToggleContentIndexing}
+              className="w-full justify-start"
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              {contentIndexing ? "Searching file contents" : "Search file contents"}
+            </Button>
+          </div>
+
+          {/* Usage history that ranks often-opened files higher */}
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <h4 className="text-sm font-medium">Usage history</h4>
+              <p className="text-xs text-muted-foreground">
+                Files you open often, and the searches you open them from, rank higher.
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleClearUsage}
+              disabled={usageCleared}
+              className="w-full justify-start"
+            >
+              <History className="h-4 w-4 mr-2" />
+              {usageCleared ? "Usage history cleared" : "Clear usage history"}
+            </Button>
+          </div>
+
+          {/* Weights behind the order of search results */}
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <h4 className="text-sm font-medium">Ranking</h4>
+              <p className="text-xs text-muted-foreground">
+                How much each signal counts when ordering results. Higher values count more; 0 turns a signal off.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {RANKING_FIELDS.map(({ key, label }) => (
+                <label key={key} className="space-y-1 text-xs text-muted-foreground">
+                  <span>{label}</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={rankingDraft[key] ?? ""}
+                    onChange={(e) => {
+                      setRankingDraft({ ...rankingDraft, [key]: e.target.value })
+                      setRankingSaved(false)
+                    }}
+                    className="h-8"
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={handleSaveRanking}
+                disabled={rankingSaved}
+                className="flex-1 justify-start"
+              >
+                <SlidersHorizontal className="h-4 w-4 mr-2" />
+                {rankingSaved ? "Ranking saved" : "Save ranking"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleResetRanking}
+                className="flex-1 justify-start"
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset to defaults
+              </Button>
+            </div>
+          </div>
+
           {/* App Info */}
           <div className="space-y-3">
             <div className="space-y-1">
@@ -173,4 +421,15 @@ export function SettingsModal({ onSignOut, userEmail }: SettingsModalProps) {
       </DialogContent>
     </Dialog>
   )
-}
\ No newline at end of file
+}
+
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"]
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`
+}
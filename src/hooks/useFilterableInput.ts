@@ -7,11 +7,16 @@ import {
   mapRawToDisplay,
   shouldShowPopup,
   getMatchingFilters,
-  FILTER_OPTIONS,
+  getSuggestionRequest,
+  displayToRaw,
+  toSearchFilters,
+  VALUE_FILTER_OPTIONS,
   type FilterOption,
+  type FilterSuggestions,
   type ParsedInput
 } from '@/lib/inputParser'
-import type { FileTypeFilter } from '@/lib/persistentSearch'
+import type { SearchFilters } from '@/lib/persistentSearch'
+import { searchClient } from '@/lib/searchClient'
 
 export interface FilterableInputState {
   // Values
@@ -30,7 +35,7 @@ export interface FilterableInputState {
   // Actions
   handleInputChange: (value: string, cursorPos: number) => void
   handleKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => void
-  selectFilter: (filterKey: FileTypeFilter) => void
+  selectFilter: (filterKey: string) => void
   removeFilterByDisplay: (display: string) => void
   closePopup: () => void
   
@@ -40,7 +45,7 @@ export interface FilterableInputState {
 
 export function useFilterableInput(
   initialValue: string = '',
-  onSearchChange?: (query: string, filters: FileTypeFilter[]) => void
+  onSearchChange?: (query: string, filters: SearchFilters) => void
 ): FilterableInputState {
   const [rawValue, setRawValue] = useState(initialValue)
   const [cursorPosition, setCursorPosition] = useState(0)
@@ -55,24 +60,58 @@ export function useFilterableInput(
   const parsedInput = parseFilterInput(rawValue)
   const { displayValue } = parsedInput
   
+  // Folder, people and drive values come from the search index, which answers asynchronously
+  const [suggestionValues, setSuggestionValues] = useState<{
+    folders?: Array<{ name: string; path?: string }>
+    people?: Array<{ displayName: string; emailAddress: string }>
+    drives?: string[]
+  }>({})
+
+  useEffect(() => {
+    const request = showPopup ? getSuggestionRequest(popupSearch) : null
+    if (!request) return
+
+    let cancelled = false
+    const lookups: { [K in keyof FilterSuggestions]-?: (prefix: string) => Promise<unknown> } = {
+      folders: prefix => searchClient.suggestFolders(prefix),
+      people: prefix => searchClient.suggestPeople(prefix),
+      drives: prefix => searchClient.suggestDrives(prefix)
+    }
+    lookups[request.kind](request.prefix)
+      .then(values => {
+        if (!cancelled) setSuggestionValues({ [request.kind]: values })
+      })
+      .catch(error => console.error('Failed to load suggestions:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [showPopup, popupSearch])
+
   // Get matching filter options for popup
-  const popupOptions = getMatchingFilters(popupSearch)
+  const popupOptions = getMatchingFilters(popupSearch, {
+    folders: () => suggestionValues.folders || [],
+    people: () => suggestionValues.people || [],
+    drives: () => suggestionValues.drives || []
+  })
   
   // Update search callback when parsed input changes - but only when it actually changes
+  // (date filters resolve to whole days, so their serialized form is stable between renders)
+  const searchFilters = toSearchFilters(parsedInput)
+  const serializedFilters = JSON.stringify(searchFilters)
   const prevCleanQuery = useRef(parsedInput.cleanQuery)
-  const prevFilters = useRef(parsedInput.filters)
+  const prevFilters = useRef(serializedFilters)
   
   useEffect(() => {
-    const filterKeys = parsedInput.filters.map(f => f.key)
-    const filtersChanged = JSON.stringify(prevFilters.current.map(f => f.key)) !== JSON.stringify(filterKeys)
+    const filtersChanged = prevFilters.current !== serializedFilters
     const queryChanged = prevCleanQuery.current !== parsedInput.cleanQuery
     
     if (onSearchChange && (queryChanged || filtersChanged)) {
       prevCleanQuery.current = parsedInput.cleanQuery
-      prevFilters.current = parsedInput.filters
-      onSearchChange(parsedInput.cleanQuery, filterKeys)
+      prevFilters.current = serializedFilters
+      onSearchChange(parsedInput.cleanQuery, searchFilters)
     }
-  }, [parsedInput.cleanQuery, parsedInput.filters, onSearchChange])
+  }, [parsedInput.cleanQuery, serializedFilters, onSearchChange])
   
   // Calculate popup position when it should be shown
   useEffect(() => {
@@ -120,7 +159,9 @@ export function useFilterableInput(
       } else {
         // Update popup search if we're typing after the @
         const afterAt = value.slice(popupTriggerPos + 1, cursorPos)
-        if (afterAt.includes(' ') || afterAt.includes('@')) {
+        // Spaces are allowed inside a quoted folder name: @in:"Q3 Planning"
+        const inOpenQuote = (afterAt.match(/"/g) || []).length % 2 === 1
+        if ((afterAt.includes(' ') && !inOpenQuote) || afterAt.includes('@')) {
           // Space or another @ typed, close popup
           setShowPopup(false)
         } else {
@@ -129,24 +170,8 @@ export function useFilterableInput(
       }
     }
     
-    // Convert display value back to raw value by intelligently converting @filter patterns
-    let newRawValue = value
-    
-    // Find all @word patterns in the new value
-    const atPatterns = value.match(/@[a-zA-Z]+/g) || []
-    
-    for (const pattern of atPatterns) {
-      const filterDisplay = pattern.substring(1) // Remove @
-      const option = FILTER_OPTIONS.find(opt => opt.display === filterDisplay)
-      
-      if (option) {
-        // Only replace complete @filter words (not partial ones during typing)
-        const regex = new RegExp(`@${filterDisplay}(?=\\s|$)`, 'g')
-        newRawValue = newRawValue.replace(regex, `<filter>${filterDisplay}</filter>`)
-      }
-    }
-    
-    setRawValue(newRawValue)
+    // Convert display value back to raw value by converting complete @filter patterns
+    setRawValue(displayToRaw(value, { typing: true }))
   }, [displayValue, showPopup, popupTriggerPos])
   
   const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -170,7 +195,7 @@ export function useFilterableInput(
     }
   }, [showPopup])
   
-  const selectFilter = useCallback((filterKey: FileTypeFilter) => {
+  const selectFilter = useCallback((filterKey: string) => {
     if (!inputRef.current) {
       return
     }
@@ -178,44 +203,40 @@ export function useFilterableInput(
     const input = inputRef.current
     const currentDisplayValue = input.value
     
-    // Find the filter option
-    const filterOption = FILTER_OPTIONS.find(opt => opt.key === filterKey)
+    // Find the filter option among the ones currently offered
+    const filterOption = popupOptions.find(opt => opt.key === filterKey)
     if (!filterOption) {
       return
     }
     
+    // Picking an operator like "@in:" or "@owner:" keeps the popup open so the user can pick a value next
+    const keepPopupOpen = VALUE_FILTER_OPTIONS.some(opt => opt.key === filterOption.key)
+    
     // Replace the @ and any partial text with the complete filter
     const beforeAt = currentDisplayValue.slice(0, popupTriggerPos)
     const afterCursor = currentDisplayValue.slice(cursorPosition)
     
-    // Create new display value with the complete filter
-    const newDisplayValue = beforeAt + `@${filterOption.display}` + afterCursor
-    const newCursorPos = beforeAt.length + filterOption.display.length + 1
+    // Create new display value with the complete filter; a picked filter is finished,
+    // so a space follows it and the next word starts after it
+    const separator = keepPopupOpen || /^\s/.test(afterCursor) ? '' : ' '
+    const newDisplayValue = beforeAt + `@${filterOption.display}` + separator + afterCursor
+    const newCursorPos = beforeAt.length + filterOption.display.length + 1 + separator.length
     
     // Convert the entire new display value to raw value
-    let newRawValue = newDisplayValue
-    
-    // Convert all valid @filter patterns to <filter> tags
-    const atPatterns = newDisplayValue.match(/@[a-zA-Z]+/g) || []
-    for (const pattern of atPatterns) {
-      const filterDisplay = pattern.substring(1)
-      const option = FILTER_OPTIONS.find(opt => opt.display === filterDisplay)
-      if (option) {
-        const regex = new RegExp(`@${filterDisplay}(?=\\s|$)`, 'g')
-        newRawValue = newRawValue.replace(regex, `<filter>${filterDisplay}</filter>`)
-      }
-    }
-    
-    setRawValue(newRawValue)
+    setRawValue(displayToRaw(newDisplayValue, { typing: true }))
     setCursorPosition(newCursorPos)
-    setShowPopup(false)
+    if (keepPopupOpen) {
+      setPopupSearch(filterOption.display)
+    } else {
+      setShowPopup(false)
+    }
     
     // Focus and set cursor position
     setTimeout(() => {
       input.focus()
       input.setSelectionRange(newCursorPos, newCursorPos)
     }, 0)
-  }, [popupTriggerPos, cursorPosition])
+  }, [popupTriggerPos, cursorPosition, popupOptions])
   
   const removeFilterByDisplay = useCallback((display: string) => {
     const newRawValue = removeFilter(rawValue, display)
@@ -0,0 +1,308 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { PersistentSearchService } from '../lib/persistentSearch'
+import { displayToRaw, parseFilterInput, toSearchFilters } from '../lib/inputParser'
+import { parseRankingOverride, type RankingConfig } from '../lib/ranking'
+import type { DriveFile } from '~types'
+
+const DEFAULT_FIXTURE_PATH = path.join('data', 'eval', 'fixture.json')
+const DEFAULT_BASELINE_PATH = path.join('data', 'eval', 'baseline.json')
+const RANKING_FLAG_PREFIX = '--ranking.'
+const NDCG_DEPTH = 10
+// Changes smaller than this are rounding, not a better or worse ranking
+const REPORT_EPSILON = 0.0005
+
+/**
+ * Synthetic files and judged queries to measure ranking against
+ */
+interface EvaluationFixture {
+  files: FixtureFile[]
+  opens?: FixtureOpen[] // Usage history recorded before searching
+  queries: JudgedQuery[]
+}
+
+type FixtureFile = DriveFile & {
+  content?: string // Text as content indexing would extract it
+  modifiedDaysAgo?: number // Relative to the run, so recency boosts score the same every time
+}
+
+interface FixtureOpen {
+  fileId: string
+  query?: string // Search the file was picked from
+  count?: number
+}
+
+interface JudgedQuery {
+  query: string // As typed in the search box, @filters included
+  relevant: Record<string, number> // File ID -> grade: 3 the file wanted, 2 relevant, 1 related
+  note?: string
+}
+
+interface QueryMetrics {
+  reciprocalRank: number
+  ndcg: number
+  recall: number
+}
+
+interface EvaluationReport {
+  createdAt: string
+  limit: number
+  metrics: QueryMetrics // Mean over all queries
+  queries: Record<string, QueryMetrics>
+}
+
+interface EvaluationJobOptions {
+  fixturePath?: string
+  baselinePath?: string
+  saveBaseline?: boolean // Replace the baseline with this run
+  limit?: number // Results per search; recall is measured at this depth
+  tolerance?: number // How far a mean metric may drop below the baseline
+  ranking?: Partial<RankingConfig> // Weights to try instead of the defaults
+  verbose?: boolean // Print every query, not only the ones that changed
+}
+
+interface EvaluationJobResult {
+  success: boolean // False when a metric regressed beyond the tolerance
+  report: EvaluationReport
+  regressions: string[]
+}
+
+/**
+ * Rank every judged query of the fixture and score the results against the judgments
+ * The fixture is indexed into a throwaway directory, so the real index, usage history
+ * and saved ranking weights are never read or changed
+ */
+export async function evaluateSearchJob(options: EvaluationJobOptions = {}): Promise<EvaluationJobResult> {
+  const fixturePath = path.resolve(options.fixturePath || DEFAULT_FIXTURE_PATH)
+  const baselinePath = path.resolve(options.baselinePath || DEFAULT_BASELINE_PATH)
+  const limit = options.limit || 20
+  const tolerance = options.tolerance ?? 0.005
+
+  const fixture: EvaluationFixture = JSON.parse(await fs.readFile(fixturePath, 'utf8'))
+  console.log(`🧪 Evaluating ${fixture.queries.length} queries over ${fixture.files.length} files`)
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'search-eval-'))
+  try {
+    const service = await createFixtureIndex(fixture, workDir)
+    const report = runQueries(service, fixture.queries, limit, options.ranking || {})
+    const baseline = await readBaseline(baselinePath)
+
+    printReport(report, fixture.queries, baseline, options.verbose)
+    const regressions = baseline && !options.saveBaseline ? findRegressions(report, baseline, tolerance) : []
+
+    if (options.saveBaseline) {
+      await fs.writeFile(baselinePath, JSON.stringify(report, null, 2) + '\n')
+      console.log(`💾 Saved baseline to ${path.relative(process.cwd(), baselinePath)}`)
+    } else if (!baseline) {
+      console.log('📭 No baseline to compare with; save one with --save-baseline')
+    }
+    regressions.forEach(regression => console.error(`📉 ${regression}`))
+
+    return { success: regressions.length === 0, report, regressions }
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Index the fixture files and replay its usage history in a search service of its own
+ */
+async function createFixtureIndex(fixture: EvaluationFixture, workDir: string): Promise<PersistentSearchService> {
+  // The service keeps its files under the working directory it was created in
+  const previousDir = process.cwd()
+  process.chdir(workDir)
+  let service: PersistentSearchService
+  try {
+    service = new PersistentSearchService('eval')
+    await service.initialize()
+  } finally {
+    process.chdir(previousDir)
+  }
+
+  const now = Date.now()
+  await service.replaceIndex(fixture.files.map(({ modifiedDaysAgo, ...file }) => ({
+    ...file,
+    modifiedTime: modifiedDaysAgo !== undefined
+      ? new Date(now - modifiedDaysAgo * 24 * 60 * 60 * 1000).toISOString()
+      : file.modifiedTime
+  })))
+
+  for (const open of fixture.opens || []) {
+    for (let i = 0; i < (open.count ?? 1); i++) {
+      await service.trackFileOpen(open.fileId, open.query)
+    }
+  }
+  return service
+}
+
+function runQueries(
+  service: PersistentSearchService,
+  queries: JudgedQuery[],
+  limit: number,
+  ranking: Partial<RankingConfig>
+): EvaluationReport {
+  const results: Record<string, QueryMetrics> = {}
+
+  for (const judged of queries) {
+    // Same parsing as the search box, so fixtures can use @filters
+    const parsedInput = parseFilterInput(displayToRaw(judged.query))
+    const files = service.search(parsedInput.cleanQuery, limit, toSearchFilters(parsedInput), { ranking })
+    results[judged.query] = scoreRanking(files, judged.relevant)
+  }
+
+  const scores = Object.values(results)
+  const mean = (metric: keyof QueryMetrics) =>
+    scores.length > 0 ? scores.reduce((total, score) => total + score[metric], 0) / scores.length : 0
+
+  return {
+    createdAt: new Date().toISOString(),
+    limit,
+    metrics: { reciprocalRank: mean('reciprocalRank'), ndcg: mean('ndcg'), recall: mean('recall') },
+    queries: results
+  }
+}
+
+/**
+ * Reciprocal rank of the first relevant file, nDCG@10 with gain 2^grade - 1,
+ * and the share of relevant files returned at all
+ */
+function scoreRanking(files: DriveFile[], relevant: Record<string, number>): QueryMetrics {
+  const grades = files.map(file => relevant[file.id] || 0)
+  const relevantCount = Object.values(relevant).filter(grade => grade > 0).length
+
+  const firstRelevant = grades.findIndex(grade => grade > 0)
+  const idealGrades = Object.values(relevant).sort((a, b) => b - a)
+  const idealGain = discountedGain(idealGrades)
+
+  return {
+    reciprocalRank: firstRelevant === -1 ? 0 : 1 / (firstRelevant + 1),
+    ndcg: idealGain > 0 ? discountedGain(grades) / idealGain : 0,
+    recall: relevantCount > 0 ? grades.filter(grade => grade > 0).length / relevantCount : 0
+  }
+}
+
+function discountedGain(grades: number[]): number {
+  return grades
+    .slice(0, NDCG_DEPTH)
+    .reduce((total, grade, rank) => total + (Math.pow(2, grade) - 1) / Math.log2(rank + 2), 0)
+}
+
+async function readBaseline(baselinePath: string): Promise<EvaluationReport | null> {
+  try {
+    return JSON.parse(await fs.readFile(baselinePath, 'utf8'))
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null
+    throw error
+  }
+}
+
+/**
+ * Mean metrics that dropped more than the tolerance below the baseline
+ */
+function findRegressions(report: EvaluationReport, baseline: EvaluationReport, tolerance: number): string[] {
+  return (Object.keys(report.metrics) as Array<keyof QueryMetrics>)
+    .filter(metric => report.metrics[metric] < baseline.metrics[metric] - tolerance)
+    .map(metric => `${METRIC_LABELS[metric]} fell from ${formatMetric(baseline.metrics[metric])} to ${formatMetric(report.metrics[metric])}`)
+}
+
+const METRIC_LABELS: Record<keyof QueryMetrics, string> = {
+  reciprocalRank: 'MRR',
+  ndcg: `nDCG@${NDCG_DEPTH}`,
+  recall: 'Recall'
+}
+
+function printReport(
+  report: EvaluationReport,
+  queries: JudgedQuery[],
+  baseline: EvaluationReport | null,
+  verbose: boolean = false
+): void {
+  const metrics = Object.keys(METRIC_LABELS) as Array<keyof QueryMetrics>
+
+  // Per query: everything when verbose, otherwise what moved since the baseline
+  const rows = queries.filter(({ query }) => {
+    const before = baseline?.queries[query]
+    return verbose || !before || metrics.some(metric => Math.abs(report.queries[query][metric] - before[metric]) > REPORT_EPSILON)
+  })
+  if (rows.length > 0) {
+    console.log(`\n${'Query'.padEnd(28)}${metrics.map(metric => METRIC_LABELS[metric].padStart(16)).join('')}`)
+  }
+  rows.forEach(({ query, note }) => {
+    const cells = metrics.map(metric => formatCell(report.queries[query][metric], baseline?.queries[query]?.[metric]))
+    console.log(`${query.padEnd(28)}${cells.join('')}${note ? `  ${note}` : ''}`)
+  })
+
+  console.log(`\n📊 Mean over ${queries.length} queries (top ${report.limit} results)`)
+  metrics.forEach(metric => {
+    console.log(`${METRIC_LABELS[metric].padEnd(28)}${formatCell(report.metrics[metric], baseline?.metrics[metric])}`)
+  })
+}
+
+function formatCell(value: number, baselineValue?: number): string {
+  if (baselineValue === undefined) return formatMetric(value).padStart(16)
+  const delta = value - baselineValue
+  const change = Math.abs(delta) > REPORT_EPSILON ? ` (${delta > 0 ? '+' : ''}${formatMetric(delta)})` : ''
+  return `${formatMetric(value)}${change}`.padStart(16)
+}
+
+function formatMetric(value: number): string {
+  return value.toFixed(3)
+}
+
+/**
+ * Command-line interface for the evaluation
+ * npm run eval -- --ranking.recencyWeight=0 --verbose
+ */
+export async function runEvaluationCLI(): Promise<void> {
+  const args = process.argv.slice(2)
+  const options: EvaluationJobOptions = {
+    saveBaseline: args.includes('--save-baseline'),
+    verbose: args.includes('--verbose'),
+    ranking: {}
+  }
+
+  try {
+    for (const arg of args) {
+      if (arg.startsWith('--fixture=')) {
+        options.fixturePath = arg.slice('--fixture='.length)
+      } else if (arg.startsWith('--baseline=')) {
+        options.baselinePath = arg.slice('--baseline='.length)
+      } else if (arg.startsWith('--limit=')) {
+        options.limit = Number(arg.slice('--limit='.length))
+        if (!Number.isInteger(options.limit) || options.limit <= 0) {
+          throw new Error(`Invalid limit: ${arg}`)
+        }
+      } else if (arg.startsWith('--tolerance=')) {
+        options.tolerance = Number(arg.slice('--tolerance='.length))
+        if (!Number.isFinite(options.tolerance) || options.tolerance < 0) {
+          throw new Error(`Invalid tolerance: ${arg}`)
+        }
+      } else if (arg.startsWith(RANKING_FLAG_PREFIX)) {
+        options.ranking = { ...options.ranking, ...parseRankingOverride(arg.slice(RANKING_FLAG_PREFIX.length)) }
+      }
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  }
+
+  try {
+    const result = await evaluateSearchJob(options)
+    if (result.success) {
+      console.log('✅ No ranking regressions')
+      process.exit(0)
+    } else {
+      console.error('❌ Ranking got worse than the baseline')
+      process.exit(1)
+    }
+  } catch (error) {
+    console.error('💥 Evaluation crashed:', error)
+    process.exit(1)
+  }
+}
+
+// If this file is run directly, execute the CLI
+if (require.main === module) {
+  runEvaluationCLI()
+}
@@ -0,0 +1,62 @@
+// Node-only entry for the indexing jobs; the jobs themselves are shared with the extension,
+// which must not bundle the local files source (fs, path)
+
+import { searchClient } from '../lib/searchClient'
+import { authService } from '../lib/auth'
+import { contentIndexer } from '../lib/contentIndexer'
+import { sourceRegistry } from '../lib/sources'
+import { createLocalFilesProvider } from '../lib/localFiles'
+import { incrementalSyncJob, indexSourcesJob, type IndexJobResult } from './indexGoogleDrive'
+
+/**
+ * Command-line interface for running the indexing job
+ */
+export async function runIndexingJobCLI(): Promise<void> {
+  const args = process.argv.slice(2)
+  const force = args.includes('--force')
+  const restart = args.includes('--restart')
+  const incremental = args.includes('--incremental')
+
+  // Full-text indexing is opt-in
+  if (args.includes('--content')) {
+    await contentIndexer.setEnabled(true)
+  }
+
+  // Google Drive authorizes with GOOGLE_REFRESH_TOKEN when it is set
+  await authService.initialize()
+
+  // Local directories are only available to the Node indexer
+  const localFiles = createLocalFilesProvider(args)
+  if (localFiles) {
+    sourceRegistry.register(localFiles)
+  }
+
+  try {
+    let result: IndexJobResult
+
+    if (incremental) {
+      result = await incrementalSyncJob()
+    } else {
+      result = await indexSourcesJob({ force, restart })
+    }
+
+    // process.exit() skips beforeExit, so write pending index changes first
+    await searchClient.flush()
+
+    if (result.success) {
+      console.log('✅ Job completed successfully')
+      process.exit(0)
+    } else {
+      console.error('❌ Job failed')
+      process.exit(1)
+    }
+  } catch (error) {
+    console.error('💥 Job crashed:', error)
+    process.exit(1)
+  }
+}
+
+// If this file is run directly, execute the CLI
+if (require.main === module) {
+  runIndexingJobCLI()
+}
@@ -1,14 +1,17 @@
-import { searchService } from '../lib/persistentSearch'
-import { googleDriveService } from '../lib/googleDrive'
+import { searchClient } from '../lib/searchClient'
 import { changeSyncService } from '../lib/changeSync'
-import type { DriveFile } from '~types'
+import { contentIndexer } from '../lib/contentIndexer'
+import { sourceRegistry } from '../lib/sources'
+import { indexCheckpointStore, type IndexCheckpoint } from '../lib/indexCheckpoint'
+import type { SourceProvider, SourceSpace } from '~types'
 
 interface IndexJobOptions {
   force?: boolean // Force full re-index even if one exists
+  restart?: boolean // Discard an interrupted run's checkpoint instead of resuming it
   userId?: string // Future: support for multiple users
 }
 
-interface IndexJobResult {
+export interface IndexJobResult {
   success: boolean
   filesIndexed: number
   timeTaken: number
@@ -16,22 +19,32 @@ interface IndexJobResult {
 }
 
 /**
- * Main indexing job that scrapes Google Drive and builds the search index
+ * Main indexing job that scrapes every authenticated source and builds the search index
+ * Progress is checkpointed after every page, so an interrupted run resumes where it stopped;
+ * the finished index replaces the old one in a single swap
  */
-export async function indexGoogleDriveJob(options: IndexJobOptions = {}): Promise<IndexJobResult> {
+export async function indexSourcesJob(options: IndexJobOptions = {}): Promise<IndexJobResult> {
   const startTime = performance.now()
   const errors: string[] = []
   let filesIndexed = 0
 
-  console.log('🚀 Starting Google Drive indexing job...')
+  console.log('🚀 Starting indexing job...')
 
   try {
     // 1. Initialize the search service
-    await searchService.initialize()
+    await searchClient.initialize()
+
+    // 2. Pick up an interrupted run unless asked to start over
+    let checkpoint = await indexCheckpointStore.load()
+    if (checkpoint && options.restart) {
+      console.log('🗑️ Discarding indexing checkpoint, starting over')
+      await indexCheckpointStore.clear(checkpoint)
+      checkpoint = null
+    }
     
-    // 2. Check if we should skip if already indexed
-    const stats = searchService.getStats()
-    if (!options.force && stats.totalFiles > 0) {
+    // 3. Check if we should skip if already indexed
+    const stats = await searchClient.getStats()
+    if (!checkpoint && !options.force && stats.totalFiles > 0) {
       console.log(`⏭️ Index already exists with ${stats.totalFiles} files. Use force=true to re-index.`)
       return {
         success: true,
@@ -41,51 +54,26 @@ export async function indexGoogleDriveJob(options: IndexJobOptions = {}): Promis
       }
     }
 
-    // 3. Verify Google Drive authentication
-    if (!googleDriveService.isAuthenticated()) {
-      throw new Error('Google Drive not authenticated. Please authenticate first.')
+    // 4. Verify at least one source is authenticated
+    const providers = sourceRegistry.getAuthenticated()
+    if (providers.length === 0) {
+      throw new Error('No sources authenticated. Please authenticate first.')
     }
 
-    console.log('📥 Fetching all files from Google Drive...')
-    
-    // 4. Fetch all files from Google Drive with pagination
-    const allFiles: DriveFile[] = []
-    let pageToken: string | undefined
-    let pageCount = 0
-
-    do {
-      try {
-        const result = await googleDriveService.listFiles(pageToken)
-        allFiles.push(...result.files)
-        pageToken = result.nextPageToken
-        pageCount++
-        
-        console.log(`📄 Page ${pageCount}: Fetched ${result.files.length} files (total: ${allFiles.length})`)
-        
-        // Add a small delay to respect rate limits
-        if (pageToken) {
-          await sleep(100) // 100ms delay between pages
-        }
-        
-      } catch (error) {
-        const errorMsg = `Failed to fetch page ${pageCount}: ${error}`
-        console.error('❌', errorMsg)
-        errors.push(errorMsg)
-        
-        // Break on repeated failures
-        if (errors.length > 5) {
-          throw new Error(`Too many page fetch failures: ${errors.join(', ')}`)
-        }
-        
-        // Continue with what we have
-        break
-      }
-    } while (pageToken)
+    if (checkpoint) {
+      console.log(`⏯️ Resuming indexing from ${checkpoint.startedAt}: ${checkpoint.fileCount} files in ${checkpoint.pageCount} pages so far`)
+    } else {
+      checkpoint = await createCheckpoint(providers, errors)
+    }
 
-    console.log(`📊 Fetched ${allFiles.length} total files from Google Drive`)
+    // 5. Fetch the remaining pages of every space, checkpointing after each one
+    await fetchRemainingPages(checkpoint)
+    console.log(`📊 Fetched ${checkpoint.fileCount} total files`)
 
+    const allFiles = await indexCheckpointStore.loadFiles(checkpoint)
     if (allFiles.length === 0) {
-      console.log('📭 No files found in Google Drive')
+      console.log('📭 No files found in any source')
+      await indexCheckpointStore.clear(checkpoint)
       return {
         success: true,
         filesIndexed: 0,
@@ -94,40 +82,31 @@ export async function indexGoogleDriveJob(options: IndexJobOptions = {}): Promis
       }
     }
 
-    // 5. Clear existing index and rebuild
-    console.log('🗑️ Clearing existing index...')
-    await searchService.replaceIndex([]) // Clear the index
-    
-    // 6. Add all files to the search index in batches
+    // 6. Build the new index and swap it in; search uses the old one until now
     console.log('🔨 Building search index...')
-    const batchSize = 100
-    let batchCount = 0
-    
-    for (let i = 0; i < allFiles.length; i += batchSize) {
-      const batch = allFiles.slice(i, i + batchSize)
-      batchCount++
-      
-      try {
-        await searchService.addFiles(batch)
-        filesIndexed += batch.length
-        console.log(`✅ Indexed batch ${batchCount}: ${batch.length} files (total: ${filesIndexed}/${allFiles.length})`)
-        
-        // Small delay between batches
-        await sleep(50)
-        
-      } catch (error) {
-        const errorMsg = `Failed to index batch ${batchCount}: ${error}`
-        console.error('❌', errorMsg)
-        errors.push(errorMsg)
-        // Continue with next batch
+    await searchClient.replaceIndex(allFiles)
+    filesIndexed = allFiles.length
+
+    // 7. Start change tracking from the tokens taken before each space was listed
+    for (const { sourceId, spaces } of checkpoint.sources) {
+      const provider = sourceRegistry.get(sourceId)
+      if (!provider) continue
+      for (const space of spaces) {
+        if (space.startToken) {
+          await changeSyncService.saveStartToken(provider, space, space.startToken)
+        }
       }
     }
+    await indexCheckpointStore.clear(checkpoint)
+
+    // 8. Fetch the text of files for full-text search, when content indexing is on
+    await contentIndexer.indexPendingContent()
 
     const timeTaken = performance.now() - startTime
     
-    console.log('🎉 Google Drive indexing job completed!')
+    console.log('🎉 Indexing job completed!')
     console.log(`📊 Results:`)
-    console.log(`   • Files indexed: ${filesIndexed}/${allFiles.length}`)
+    console.log(`   • Files indexed: ${filesIndexed}`)
     console.log(`   • Time taken: ${Math.round(timeTaken)}ms`)
     console.log(`   • Errors: ${errors.length}`)
     
@@ -136,17 +115,12 @@ export async function indexGoogleDriveJob(options: IndexJobOptions = {}): Promis
       errors.forEach(error => console.log(`   • ${error}`))
     }
 
-    // 7. Verify the index was built correctly
-    const finalStats = searchService.getStats()
+    // 9. Verify the index was built correctly
+    const finalStats = await searchClient.getStats()
     console.log(`✅ Index verification: ${finalStats.totalFiles} files in search index`)
 
-    // 8. Initialize change tracking for future updates
-    if (filesIndexed > 0) {
-      await changeSyncService.initializeChangeTracking()
-    }
-
     return {
-      success: filesIndexed > 0,
+      success: true,
       filesIndexed,
       timeTaken,
       errors
@@ -168,96 +142,120 @@ export async function indexGoogleDriveJob(options: IndexJobOptions = {}): Promis
 }
 
 /**
- * Utility function to run incremental sync (for future use)
+ * Whether an interrupted full index is waiting to be resumed
  */
-export async function incrementalSyncJob(): Promise<IndexJobResult> {
-  const startTime = performance.now()
-  const errors: string[] = []
+export async function hasIndexCheckpoint(): Promise<boolean> {
+  return (await indexCheckpointStore.load()) !== null
+}
 
-  console.log('🔄 Starting incremental sync job...')
+/**
+ * Start a new run: list the spaces of every source up front so the checkpoint knows
+ * everything that still has to be fetched
+ */
+async function createCheckpoint(providers: SourceProvider[], errors: string[]): Promise<IndexCheckpoint> {
+  console.log(`📥 Fetching all files from ${providers.map(p => p.name).join(', ')}...`)
+  const sources: IndexCheckpoint['sources'] = []
 
-  try {
-    await searchService.initialize()
-    
-    // For now, we'll do a simple approach - check files modified in last 24 hours
-    const yesterday = new Date()
-    yesterday.setDate(yesterday.getDate() - 1)
-    
-    console.log(`🔍 Checking for files modified since ${yesterday.toISOString()}`)
-    
-    // Search for recently modified files
-    const result = await googleDriveService.searchFiles({
-      query: `modifiedTime>'${yesterday.toISOString()}'`,
-      maxResults: 1000
-    })
-
-    if (result.files.length === 0) {
-      console.log('✅ No recent changes detected')
-      return {
-        success: true,
-        filesIndexed: 0,
-        timeTaken: performance.now() - startTime,
-        errors: []
-      }
+  for (const provider of providers) {
+    let spaces: SourceSpace[]
+    try {
+      spaces = await provider.listSpaces()
+      console.log(`🗂️ ${provider.name}: found ${spaces.length} spaces`)
+    } catch (error) {
+      const errorMsg = `Failed to list ${provider.name} spaces: ${error}`
+      console.error('❌', errorMsg)
+      errors.push(errorMsg)
+      spaces = [{ name: provider.name }]
     }
+    sources.push({ sourceId: provider.id, spaces })
+  }
 
-    console.log(`🔄 Found ${result.files.length} recently modified files`)
-    
-    // Update these files in the index
-    await searchService.updateFiles(result.files)
-    
-    const timeTaken = performance.now() - startTime
-    console.log(`✅ Incremental sync completed: ${result.files.length} files updated in ${Math.round(timeTaken)}ms`)
+  const checkpoint: IndexCheckpoint = {
+    startedAt: new Date().toISOString(),
+    sources,
+    position: { sourceIndex: 0, spaceIndex: 0 },
+    pageCount: 0,
+    fileCount: 0
+  }
+  await indexCheckpointStore.save(checkpoint)
+  return checkpoint
+}
 
-    return {
-      success: true,
-      filesIndexed: result.files.length,
-      timeTaken,
-      errors
+/**
+ * Fetch every page after the checkpoint's position (My Drive, shared drives, ...),
+ * saving each page and the advanced position before fetching the next
+ */
+async function fetchRemainingPages(checkpoint: IndexCheckpoint): Promise<void> {
+  const { position } = checkpoint
+
+  for (; position.sourceIndex < checkpoint.sources.length; position.sourceIndex++, position.spaceIndex = 0) {
+    const { sourceId, spaces } = checkpoint.sources[position.sourceIndex]
+    const provider = sourceRegistry.get(sourceId)
+    if (!provider || !provider.isAuthenticated()) {
+      throw new Error(`Source ${sourceId} is no longer available. Sign in again or restart indexing.`)
     }
 
-  } catch (error) {
-    const timeTaken = performance.now() - startTime
-    const errorMsg = `Incremental sync failed: ${error}`
-    console.error('❌', errorMsg)
-    errors.push(errorMsg)
+    for (; position.spaceIndex < spaces.length; position.spaceIndex++, position.pageToken = undefined) {
+      const space = spaces[position.spaceIndex]
+      const spaceLabel = `${provider.name} "${space.name}"`
 
-    return {
-      success: false,
-      filesIndexed: 0,
-      timeTaken,
-      errors
+      // Take the change token before listing so nothing changed meanwhile is missed
+      if (!position.pageToken && !space.startToken) {
+        space.startToken = await provider.getStartPageToken(space.id)
+        await indexCheckpointStore.save(checkpoint)
+      }
+
+      do {
+        let result
+        try {
+          result = await provider.listFiles(position.pageToken, space.id)
+        } catch (error) {
+          // Requests are already retried with backoff; the checkpoint keeps everything
+          // fetched so far, and the old index stays in place until a run completes
+          throw new Error(`Failed to fetch ${spaceLabel} page: ${error}`)
+        }
+
+        const files = result.files.map(file => sourceRegistry.normalizeFile(provider, file, space))
+        await indexCheckpointStore.savePage(checkpoint.pageCount, files)
+        checkpoint.pageCount++
+        checkpoint.fileCount += files.length
+        position.pageToken = result.nextPageToken
+        await indexCheckpointStore.save(checkpoint)
+
+        console.log(`📄 ${spaceLabel}: Fetched ${files.length} files (total: ${checkpoint.fileCount})`)
+
+        // Add a small delay to respect rate limits
+        if (position.pageToken) {
+          await sleep(100) // 100ms delay between pages
+        }
+      } while (position.pageToken)
     }
   }
 }
 
 /**
- * Command-line interface for running the indexing job
+ * Incremental sync: apply the changes of every source since its stored change token
  */
-export async function runIndexingJobCLI(): Promise<void> {
-  const args = process.argv.slice(2)
-  const force = args.includes('--force')
-  const incremental = args.includes('--incremental')
+export async function incrementalSyncJob(): Promise<IndexJobResult> {
+  const startTime = performance.now()
 
-  try {
-    let result: IndexJobResult
+  console.log('🔄 Starting incremental sync job...')
 
-    if (incremental) {
-      result = await incrementalSyncJob()
-    } else {
-      result = await indexGoogleDriveJob({ force })
-    }
+  await searchClient.initialize()
+  const result = await changeSyncService.syncChanges()
 
-    if (result.success) {
-      console.log('✅ Job completed successfully')
-      process.exit(0)
-    } else {
-      console.error('❌ Job failed')
-      process.exit(1)
-    }
-  } catch (error) {
-    console.error('💥 Job crashed:', error)
-    process.exit(1)
+  const timeTaken = performance.now() - startTime
+  if (result.success) {
+    console.log(`✅ Incremental sync completed: ${result.changesProcessed} changes in ${Math.round(timeTaken)}ms`)
+  } else {
+    console.error('❌ Incremental sync failed:', result.error)
+  }
+
+  return {
+    success: result.success,
+    filesIndexed: result.changesProcessed,
+    timeTaken,
+    errors: result.error ? [result.error] : []
   }
 }
 
@@ -265,8 +263,3 @@ export async function runIndexingJobCLI(): Promise<void> {
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms))
 }
-
-// If this file is run directly, execute the CLI
-if (require.main === module) {
-  runIndexingJobCLI()
-}
\ No newline at end of file
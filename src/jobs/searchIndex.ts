@@ -0,0 +1,106 @@
+import { searchClient } from '../lib/searchClient'
+import { displayToRaw, parseFilterInput, toSearchFilters } from '../lib/inputParser'
+import { parseRankingOverride, type RankingConfig } from '../lib/ranking'
+import type { DriveFile } from '~types'
+
+const RANKING_FLAG_PREFIX = '--ranking.'
+
+interface SearchCLIOptions {
+  query: string
+  limit: number
+  explain: boolean
+  ranking: Partial<RankingConfig>
+}
+
+/**
+ * Command-line interface for searching the local index
+ * npm run search -- "budget @docs" --explain --ranking.recencyWeight=0
+ * Ranking flags only apply to this search; the saved weights stay as they are
+ */
+export async function runSearchCLI(): Promise<void> {
+  let options: SearchCLIOptions
+  try {
+    options = parseArgs(process.argv.slice(2))
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  }
+
+  try {
+    await searchClient.initialize()
+
+    const parsedInput = parseFilterInput(displayToRaw(options.query))
+    if (parsedInput.queryError) {
+      console.warn(`⚠️ ${parsedInput.queryError.message}; searching for the words as typed`)
+    }
+
+    const results = await searchClient.search(
+      parsedInput.cleanQuery,
+      options.limit,
+      toSearchFilters(parsedInput),
+      { explain: options.explain, ranking: options.ranking }
+    )
+
+    if (results.length === 0) {
+      console.log('📭 No results')
+    }
+    results.forEach((file, index) => printResult(file, index + 1, options.explain))
+    process.exit(0)
+  } catch (error) {
+    console.error('💥 Search failed:', error)
+    process.exit(1)
+  }
+}
+
+function parseArgs(args: string[]): SearchCLIOptions {
+  const words: string[] = []
+  let ranking: Partial<RankingConfig> = {}
+  let limit = 20
+  let explain = false
+
+  for (const arg of args) {
+    if (arg === '--explain') {
+      explain = true
+    } else if (arg.startsWith('--limit=')) {
+      limit = Number(arg.slice('--limit='.length))
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw new Error(`Invalid limit: ${arg}`)
+      }
+    } else if (arg.startsWith(RANKING_FLAG_PREFIX)) {
+      ranking = { ...ranking, ...parseRankingOverride(arg.slice(RANKING_FLAG_PREFIX.length)) }
+    } else {
+      words.push(arg)
+    }
+  }
+
+  const query = words.join(' ').trim()
+  if (!query) {
+    throw new Error('Usage: search <query> [--limit=N] [--explain] [--ranking.<weight>=<value>]')
+  }
+  return { query, limit, explain, ranking }
+}
+
+function printResult(file: DriveFile, position: number, explain: boolean): void {
+  const location = file.path ? ` (${file.path})` : ''
+  console.log(`${position}. ${file.name}${location}`)
+
+  const { explanation } = file
+  if (explain && explanation) {
+    console.log(`   score ${formatNumber(explanation.score)} = relevance ${formatNumber(explanation.relevance)} × boost ${formatNumber(explanation.documentBoost)}`)
+    explanation.boosts.forEach(boost => {
+      console.log(`     +${formatNumber(boost.value)} ${boost.reason}`)
+    })
+    if (file.matches?.length) {
+      console.log(`   matched ${file.matches.map(match => `${match.term} [${match.fields.join(', ')}]`).join(', ')}`)
+    }
+  }
+}
+
+function formatNumber(value: number): string {
+  return value.toFixed(3)
+}
+
+// If this file is run directly, execute the CLI
+if (require.main === module) {
+  runSearchCLI()
+}
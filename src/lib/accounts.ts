@@ -0,0 +1,215 @@
+import { AuthService, authService } from './auth'
+import { GoogleDriveService, googleDriveService } from './googleDrive'
+import { searchClient } from './searchClient'
+import { sourceRegistry, DEFAULT_SOURCE_ID } from './sources'
+import { changeSyncService } from './changeSync'
+import { isNodeEnvironment } from './storage'
+
+const ACCOUNTS_KEY = 'googleAccounts' // Emails of the accounts added after the primary one
+
+interface ConnectedAccount {
+  auth: AuthService
+  drive: GoogleDriveService
+}
+
+export interface AccountInfo {
+  sourceId: string
+  email?: string
+  isPrimary: boolean
+  isAuthenticated: boolean
+  needsReauth: boolean
+}
+
+/**
+ * Connected Google accounts
+ * Every account is its own source, so files share one index but keep their account,
+ * and each account has its own change tokens. A file shared with several accounts
+ * is indexed once, shown under whichever account synced it last, and stays indexed
+ * until none of them has it. One index rather than one per account keeps a single
+ * ranking across accounts (see docs/indexing-architecture.md, Source Adapters).
+ */
+class AccountService {
+  private accounts: Map<string, ConnectedAccount> = new Map() // Added accounts by email
+  private listeners: Set<() => void> = new Set()
+
+  constructor() {
+    authService.onAuthStateChange(() => this.notifyListeners())
+  }
+
+  /**
+   * Restore the added accounts and register them as sources
+   * The primary account is initialized by authService itself
+   */
+  async initialize(): Promise<void> {
+    if (isNodeEnvironment()) return
+
+    for (const email of await this.loadAccountList()) {
+      if (this.accounts.has(email)) continue
+
+      const auth = new AuthService(this.getStorageKey(email))
+      await auth.initialize()
+      this.register(email, auth)
+    }
+  }
+
+  getAccounts(): AccountInfo[] {
+    const primary = this.toAccountInfo({ auth: authService, drive: googleDriveService }, true)
+    const added = [...this.accounts.values()].map(account => this.toAccountInfo(account, false))
+
+    // The primary account only counts while it is signed in (or waiting to sign in again)
+    return primary.isAuthenticated || primary.needsReauth ? [primary, ...added] : added
+  }
+
+  isAnyAuthenticated(): boolean {
+    return this.getAccounts().some(account => account.isAuthenticated)
+  }
+
+  /**
+   * Listen for accounts being added, removed, refreshed or needing sign-in again
+   */
+  onAccountsChange(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Let the user pick another Google account and connect it
+   * Returns the account's email, or null if sign-in was cancelled
+   */
+  async addAccount(): Promise<string | null> {
+    const auth = new AuthService(null)
+    if (!await auth.authenticate({ selectAccount: true })) return null
+
+    const email = auth.getAccountEmail()
+    if (!email) {
+      console.error('❌ Could not determine the email of the added account')
+      return null
+    }
+
+    // Picked an account that is already connected - nothing new to index
+    if (email === authService.getAccountEmail() || this.accounts.has(email)) {
+      console.log(`ℹ️ ${email} is already connected`)
+      return email
+    }
+
+    await auth.setStorageKey(this.getStorageKey(email))
+    this.register(email, auth)
+    await this.saveAccountList()
+    this.notifyListeners()
+
+    console.log(`✅ Added Google account ${email}`)
+    return email
+  }
+
+  /**
+   * Interactive sign-in for an account whose silent refresh failed
+   */
+  async reauthenticate(sourceId: string): Promise<boolean> {
+    const account = this.findAccount(sourceId)
+    return account ? account.auth.authenticate() : false
+  }
+
+  /**
+   * Sign out of one account and drop its files, keeping every other account
+   * along with the files it shares with the removed one
+   * Returns the IDs of the files dropped from the index
+   */
+  async removeAccount(sourceId: string): Promise<string[]> {
+    const isPrimary = sourceId === DEFAULT_SOURCE_ID
+    const account = this.findAccount(sourceId)
+    if (!account) return []
+
+    // Reset tokens while still signed in, so the account's spaces can be listed
+    await changeSyncService.resetChangeTracking(account.drive)
+
+    const removedIds = await searchClient.removeSource(sourceId, isPrimary)
+
+    const label = account.drive.account || sourceId
+    await account.auth.signOut()
+
+    if (!isPrimary) {
+      this.accounts.forEach((connected, email) => {
+        if (connected === account) this.accounts.delete(email)
+      })
+      sourceRegistry.unregister(sourceId)
+      await this.saveAccountList()
+    }
+
+    this.notifyListeners()
+    console.log(`👋 Removed account ${label} and ${removedIds.length} of its files`)
+    return removedIds
+  }
+
+  /**
+   * Sign out of every account; the index is kept
+   */
+  async signOutAll(): Promise<void> {
+    await authService.signOut()
+    for (const { auth, drive } of this.accounts.values()) {
+      await auth.signOut()
+      sourceRegistry.unregister(drive.id)
+    }
+    this.accounts.clear()
+    await this.saveAccountList()
+    this.notifyListeners()
+  }
+
+  private findAccount(sourceId: string): ConnectedAccount | undefined {
+    if (sourceId === DEFAULT_SOURCE_ID) {
+      return { auth: authService, drive: googleDriveService }
+    }
+    return [...this.accounts.values()].find(account => account.drive.id === sourceId)
+  }
+
+  private register(email: string, auth: AuthService): void {
+    const drive = new GoogleDriveService(auth, email)
+    this.accounts.set(email, { auth, drive })
+    sourceRegistry.register(drive)
+    auth.onAuthStateChange(() => this.notifyListeners())
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener())
+  }
+
+  private toAccountInfo({ auth, drive }: ConnectedAccount, isPrimary: boolean): AccountInfo {
+    return {
+      sourceId: drive.id,
+      email: drive.account,
+      isPrimary,
+      isAuthenticated: auth.isAuthenticated(),
+      needsReauth: auth.needsReauth()
+    }
+  }
+
+  private getStorageKey(email: string): string {
+    return `authState:${email}`
+  }
+
+  private async loadAccountList(): Promise<string[]> {
+    try {
+      if (typeof chrome !== 'undefined' && chrome.storage) {
+        const result = await chrome.storage.local.get([ACCOUNTS_KEY])
+        return result[ACCOUNTS_KEY] || []
+      }
+      return JSON.parse(localStorage.getItem(ACCOUNTS_KEY) || '[]')
+    } catch (error) {
+      console.error('Failed to load connected accounts:', error)
+      return []
+    }
+  }
+
+  private async saveAccountList(): Promise<void> {
+    const emails = [...this.accounts.keys()]
+    if (typeof chrome !== 'undefined' && chrome.storage) {
+      await chrome.storage.local.set({ [ACCOUNTS_KEY]: emails })
+    } else {
+      localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(emails))
+    }
+  }
+}
+
+// Export singleton instance
+export const accountService = new AccountService()
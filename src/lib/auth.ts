@@ -1,24 +1,47 @@
 import type { AuthState } from "~types"
+import { isNodeEnvironment } from "./storage"
 
 const SCOPES = [
   "https://www.googleapis.com/auth/drive.readonly",
   "https://www.googleapis.com/auth/drive.metadata.readonly"
 ]
 
-class AuthService {
+const PRIMARY_STORAGE_KEY = "authState"
+const TOKEN_URL = "https://oauth2.googleapis.com/token"
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000 // Refresh a minute early so requests don't race the expiry
+
+/**
+ * Auth state of one Google account
+ * The primary account keeps the original "authState" storage key; accounts added later
+ * are stored under "authState:<email>" once their email is known
+ */
+export class AuthService {
   private authState: AuthState = {
     isAuthenticated: false
   }
+  private refreshPromise: Promise<boolean> | null = null
+  private listeners: Set<(state: AuthState) => void> = new Set()
+
+  constructor(private storageKey: string | null = PRIMARY_STORAGE_KEY) {}
 
   async initialize(): Promise<boolean> {
+    if (isNodeEnvironment()) {
+      // Node job - authorize with a refresh token from the environment
+      const refreshToken = process.env.GOOGLE_REFRESH_TOKEN
+      if (!refreshToken) return false
+      this.authState = { isAuthenticated: true, refreshToken }
+      return this.refreshAccessToken()
+    }
+
+    if (!this.storageKey) return false
+
     // Check if we already have stored auth
     if (typeof chrome !== "undefined" && chrome.storage) {
       // Extension context - use chrome storage
       try {
-        const result = await chrome.storage.local.get(['authState'])
-        if (result.authState) {
-          this.authState = result.authState
-          return this.isTokenValid()
+        const result = await chrome.storage.local.get([this.storageKey])
+        if (result[this.storageKey]) {
+          this.authState = result[this.storageKey]
         }
       } catch (error) {
         console.error("Failed to load auth state from extension storage:", error)
@@ -26,30 +49,130 @@ class AuthService {
     } else {
       // Web context - use localStorage  
       try {
-        const stored = localStorage.getItem('authState')
+        const stored = localStorage.getItem(this.storageKey)
         if (stored) {
           this.authState = JSON.parse(stored)
-          return this.isTokenValid()
         }
       } catch (error) {
         console.error("Failed to load auth state from localStorage:", error)
       }
     }
 
-    return false
+    // Tokens expire after an hour; renew a stale one before the first request
+    if (this.authState.isAuthenticated && !this.isTokenValid()) {
+      return this.refreshAccessToken()
+    }
+
+    // Signed in before accounts were tracked by email
+    if (this.authState.isAuthenticated && !this.authState.email) {
+      await this.loadAccountEmail()
+    }
+
+    return this.isAuthenticated()
   }
 
-  async authenticate(): Promise<boolean> {
+  /**
+   * Interactive sign-in
+   * With selectAccount the user picks which Google account to connect
+   */
+  async authenticate(options: { selectAccount?: boolean } = {}): Promise<boolean> {
+    const prompt = options.selectAccount ? "select_account consent" : "consent"
     if (typeof chrome !== "undefined" && chrome.identity) {
       // Chrome extension context - use chrome.identity
-      return this.authenticateExtension()
+      return this.authenticateExtension(true, prompt)
     } else {
       // Web context - use Google OAuth flow
-      return this.authenticateWeb()
+      return this.authenticateWeb(true, prompt)
+    }
+  }
+
+  /**
+   * Get a fresh access token for API calls, silently refreshing an expired one
+   */
+  async getValidAccessToken(): Promise<string | undefined> {
+    if (this.isTokenValid(TOKEN_EXPIRY_MARGIN_MS)) {
+      return this.authState.accessToken
+    }
+    const refreshed = await this.refreshAccessToken()
+    return refreshed ? this.authState.accessToken : undefined
+  }
+
+  /**
+   * Renew the access token without user interaction
+   * Concurrent callers share one refresh; if it fails the user is asked to sign in again
+   */
+  async refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.refreshSilently().finally(() => {
+        this.refreshPromise = null
+      })
     }
+    return this.refreshPromise
   }
 
-  private async authenticateWeb(): Promise<boolean> {
+  private async refreshSilently(): Promise<boolean> {
+    // Never signed in, signed out, or already waiting for the user to sign in again
+    if (!this.authState.isAuthenticated) return false
+
+    console.log("🔑 Refreshing access token...")
+    let refreshed = false
+    try {
+      if (this.authState.refreshToken) {
+        refreshed = await this.refreshWithRefreshToken(this.authState.refreshToken)
+      } else if (typeof chrome !== "undefined" && chrome.identity) {
+        refreshed = await this.authenticateExtension(false)
+      } else if (typeof window !== "undefined") {
+        refreshed = await this.authenticateWeb(false)
+      }
+    } catch (error) {
+      console.error("Silent token refresh failed:", error)
+    }
+
+    if (refreshed) {
+      console.log("✅ Access token refreshed")
+    } else {
+      console.warn("⚠️ Silent token refresh failed, sign-in required")
+      await this.markReauthRequired()
+    }
+    return refreshed
+  }
+
+  /**
+   * Refresh-token grant, used by the Node indexing job
+   */
+  private async refreshWithRefreshToken(refreshToken: string): Promise<boolean> {
+    const clientId = process.env.GOOGLE_CLIENT_ID || process.env.NEXT_PUBLIC_GOOGLE_CLIENT_ID
+    const clientSecret = process.env.GOOGLE_CLIENT_SECRET
+
+    if (!clientId || !clientSecret) {
+      console.error("Google Client ID and secret are required to refresh tokens")
+      return false
+    }
+
+    const response = await fetch(TOKEN_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        client_id: clientId,
+        client_secret: clientSecret,
+        refresh_token: refreshToken,
+        grant_type: "refresh_token"
+      }).toString()
+    })
+
+    if (!response.ok) {
+      console.error(`Token refresh failed: ${response.status} ${response.statusText}`)
+      return false
+    }
+
+    const data = await response.json()
+    if (!data.access_token) return false
+
+    await this.setAccessToken(data.access_token, data.expires_in)
+    return true
+  }
+
+  private async authenticateWeb(interactive: boolean = true, prompt: string = "consent"): Promise<boolean> {
     try {
       // Load Google API
       if (!window.google?.accounts) {
@@ -69,14 +192,10 @@ class AuthService {
         const client = window.google.accounts.oauth2.initTokenClient({
           client_id: clientId,
           scope: SCOPES.join(' '),
-          callback: (response: any) => {
+          hint: this.authState.email, // Refresh the token of this account, not whichever is signed in
+          callback: async (response: any) => {
             if (response.access_token) {
-              this.authState = {
-                isAuthenticated: true,
-                accessToken: response.access_token,
-                expiresAt: Date.now() + (response.expires_in ? parseInt(response.expires_in) * 1000 : 3600 * 1000)
-              }
-              this.saveAuthState()
+              await this.setAccessToken(response.access_token, response.expires_in)
               resolve(true)
             } else {
               console.error("No access token received", response)
@@ -89,8 +208,9 @@ class AuthService {
           }
         })
 
-        // Request access token - this opens a popup
-        client.requestAccessToken({ prompt: 'consent' })
+        // Request access token - this opens a popup, unless consent was already given
+        // and we ask without a prompt
+        client.requestAccessToken({ prompt: interactive ? prompt : '' })
       })
     } catch (error) {
       console.error("Web authentication failed:", error)
@@ -98,7 +218,7 @@ class AuthService {
     }
   }
 
-  private async authenticateExtension(): Promise<boolean> {
+  private async authenticateExtension(interactive: boolean = true, prompt: string = "consent"): Promise<boolean> {
     try {
       const clientId = process.env.CHROME_EXTENSION_CLIENT_ID
 
@@ -111,13 +231,15 @@ class AuthService {
         `client_id=${clientId}&` +
         `response_type=token&` +
         `scope=${SCOPES.join(' ')}&` +
-        `redirect_uri=${chrome.identity.getRedirectURL()}`
+        `redirect_uri=${chrome.identity.getRedirectURL()}` +
+        `&prompt=${encodeURIComponent(interactive ? prompt : 'none')}` +
+        (this.authState.email ? `&login_hint=${encodeURIComponent(this.authState.email)}` : '')
 
       const result = await new Promise<string>((resolve, reject) => {
         chrome.identity.launchWebAuthFlow(
           {
             url: authUrl,
-            interactive: true
+            interactive
           },
           (responseUrl) => {
             if (chrome.runtime.lastError) {
@@ -138,13 +260,7 @@ class AuthService {
       const expiresIn = params.get('expires_in')
 
       if (accessToken) {
-        this.authState = {
-          isAuthenticated: true,
-          accessToken,
-          expiresAt: Date.now() + (parseInt(expiresIn || '3600') * 1000)
-        }
-
-        await this.saveAuthState()
+        await this.setAccessToken(accessToken, expiresIn || undefined)
         return true
       }
 
@@ -178,26 +294,77 @@ class AuthService {
     })
   }
 
+  /**
+   * Store a new access token, keeping the refresh token and clearing any re-auth state
+   */
+  private async setAccessToken(accessToken: string, expiresIn?: string | number): Promise<void> {
+    this.authState = {
+      isAuthenticated: true,
+      accessToken,
+      refreshToken: this.authState.refreshToken,
+      expiresAt: Date.now() + (expiresIn ? Number(expiresIn) * 1000 : 3600 * 1000),
+      email: this.authState.email
+    }
+    if (!this.authState.email) {
+      await this.loadAccountEmail()
+    }
+    await this.saveAuthState()
+  }
+
+  private async loadAccountEmail(): Promise<void> {
+    const userInfo = await this.getUserInfo()
+    if (userInfo?.email) {
+      this.authState.email = userInfo.email
+      await this.saveAuthState()
+    }
+  }
+
+  private async markReauthRequired(): Promise<void> {
+    // Keep the email so signing in again can suggest the same account
+    this.authState = { isAuthenticated: false, needsReauth: true, email: this.authState.email }
+    await this.saveAuthState()
+  }
+
   private async saveAuthState(): Promise<void> {
+    this.listeners.forEach(listener => listener(this.authState))
+
+    if (isNodeEnvironment() || !this.storageKey) {
+      // Nothing to persist - the job reads its refresh token from the environment,
+      // and a newly added account is stored once its email is known
+      return
+    }
+
     if (typeof chrome !== "undefined" && chrome.storage) {
-      await chrome.storage.local.set({ authState: this.authState })
+      await chrome.storage.local.set({ [this.storageKey]: this.authState })
     } else {
-      localStorage.setItem('authState', JSON.stringify(this.authState))
+      localStorage.setItem(this.storageKey, JSON.stringify(this.authState))
     }
   }
 
-  private isTokenValid(): boolean {
+  /**
+   * Start persisting a newly added account under its own key
+   */
+  async setStorageKey(storageKey: string): Promise<void> {
+    this.storageKey = storageKey
+    await this.saveAuthState()
+  }
+
+  private isTokenValid(marginMs: number = 0): boolean {
     return this.authState.isAuthenticated && 
-           (!this.authState.expiresAt || this.authState.expiresAt > Date.now())
+           !!this.authState.accessToken &&
+           (!this.authState.expiresAt || this.authState.expiresAt > Date.now() + marginMs)
   }
 
   async signOut(): Promise<void> {
     this.authState = { isAuthenticated: false }
+    this.listeners.forEach(listener => listener(this.authState))
 
-    if (typeof chrome !== "undefined" && chrome.storage) {
-      await chrome.storage.local.remove(['authState'])
+    if (!this.storageKey || isNodeEnvironment()) {
+      // Nothing stored
+    } else if (typeof chrome !== "undefined" && chrome.storage) {
+      await chrome.storage.local.remove([this.storageKey])
     } else {
-      localStorage.removeItem('authState')
+      localStorage.removeItem(this.storageKey)
     }
 
     // Revoke token if we have one
@@ -206,8 +373,32 @@ class AuthService {
     }
   }
 
+  /**
+   * Signed in, though the access token may need a silent refresh before the next request
+   */
   isAuthenticated(): boolean {
-    return this.isTokenValid()
+    return this.authState.isAuthenticated
+  }
+
+  /**
+   * Silent refresh failed and the user has to sign in again
+   */
+  needsReauth(): boolean {
+    return !!this.authState.needsReauth
+  }
+
+  /**
+   * Listen for sign-in, token refresh, re-auth and sign-out; returns an unsubscribe function
+   */
+  onAuthStateChange(listener: (state: AuthState) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getAccountEmail(): string | undefined {
+    return this.authState.email
   }
 
   getAccessToken(): string | undefined {
@@ -215,7 +406,7 @@ class AuthService {
   }
 
   async getUserInfo(): Promise<{ email?: string; name?: string } | null> {
-    const accessToken = this.getAccessToken()
+    const accessToken = await this.getValidAccessToken()
     if (!accessToken) return null
 
     try {
@@ -247,5 +438,5 @@ declare global {
   }
 }
 
-// Export a singleton instance
+// Export the primary account's instance; accountService manages the others
 export const authService = new AuthService()
\ No newline at end of file
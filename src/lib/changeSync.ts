@@ -1,5 +1,7 @@
-import { googleDriveService } from './googleDrive'
-import { searchService } from './persistentSearch'
+import { searchClient } from './searchClient'
+import { contentIndexer } from './contentIndexer'
+import { sourceRegistry, DEFAULT_SOURCE_ID } from './sources'
+import type { DriveFile, SourceProvider, SourceSpace } from '~types'
 
 export class ChangeSyncService {
   private syncInterval: NodeJS.Timeout | null = null
@@ -48,7 +50,8 @@ export class ChangeSyncService {
       return { success: false, changesProcessed: 0, error: 'Sync already in progress' }
     }
 
-    if (!googleDriveService.isAuthenticated()) {
+    const providers = sourceRegistry.getAuthenticated()
+    if (providers.length === 0) {
       return { success: false, changesProcessed: 0, error: 'Not authenticated' }
     }
 
@@ -57,73 +60,38 @@ export class ChangeSyncService {
     try {
       console.log('🔄 Starting change sync...')
       const start = performance.now()
+      let changesProcessed = 0
 
-      // Get the stored change token
-      let changeToken = await searchService.getChangeToken()
-      
-      if (!changeToken) {
-        // No change token stored - this is first time setup
-        console.log('🆕 No change token found, getting current token for future changes')
-        changeToken = await googleDriveService.getStartPageToken()
-        await searchService.saveChangeToken(changeToken)
-        console.log('✅ Saved initial change token for future tracking')
-        return { success: true, changesProcessed: 0 }
-      }
-
-      // Get changes since the stored token
-      let allChanges: Array<{
-        fileId: string
-        removed: boolean
-        file?: any
-      }> = []
-
-      let nextPageToken = changeToken
-      let hasMorePages = true
-
-      while (hasMorePages) {
+      // Every space of every source (My Drive, each shared drive, ...) has its own change token
+      for (const provider of providers) {
+        let spaces: SourceSpace[]
         try {
-          const result = await googleDriveService.getChanges(nextPageToken)
-          
-          // Filter out changes we don't care about (only files, not folders)
-          const relevantChanges = result.changes.filter(change => {
-            // Skip if removed (we'll handle these)
-            if (change.removed) return true
-            // Skip if no file data
-            if (!change.file) return false
-            // Skip folders (we only index files)
-            if (change.file.mimeType === 'application/vnd.google-apps.folder') return false
-            // Skip trashed files
-            return true
-          })
+          spaces = await provider.listSpaces()
+        } catch (error) {
+          console.warn(`⚠️ Failed to list spaces for ${provider.name}, syncing its default space only:`, error)
+          spaces = [{ name: provider.name }]
+        }
 
-          allChanges.push(...relevantChanges)
-          
-          if (result.newStartPageToken) {
-            // We've reached the end, save the new token
-            await searchService.saveChangeToken(result.newStartPageToken)
-            hasMorePages = false
-          } else if (result.nextPageToken) {
-            // More pages to fetch
-            nextPageToken = result.nextPageToken
-          } else {
-            // No more pages
-            hasMorePages = false
+        for (const space of spaces) {
+          try {
+            changesProcessed += await this.syncSpace(provider, space)
+          } catch (error) {
+            console.error(`Error syncing ${provider.name} "${space.name}":`, error)
           }
-        } catch (error) {
-          console.error('Error fetching changes page:', error)
-          break
         }
       }
 
-      // Process the changes
-      if (allChanges.length > 0) {
-        await searchService.processChanges(allChanges)
+      // Text of new and modified files, when content indexing is on
+      try {
+        await contentIndexer.indexPendingContent()
+      } catch (error) {
+        console.error('Error indexing file contents:', error)
       }
 
       const timeTaken = performance.now() - start
-      console.log(`✅ Change sync completed in ${Math.round(timeTaken)}ms: ${allChanges.length} changes processed`)
+      console.log(`✅ Change sync completed in ${Math.round(timeTaken)}ms: ${changesProcessed} changes processed`)
       
-      return { success: true, changesProcessed: allChanges.length }
+      return { success: true, changesProcessed }
 
     } catch (error) {
       console.error('❌ Change sync failed:', error)
@@ -138,18 +106,133 @@ export class ChangeSyncService {
   }
 
   /**
-   * Initialize change tracking after a full index build
-   * This sets up the initial change token for future tracking
+   * Apply changes for one space of a source
+   * Returns the number of changes processed
    */
-  async initializeChangeTracking(): Promise<void> {
+  private async syncSpace(provider: SourceProvider, space: SourceSpace): Promise<number> {
+    const tokenScope = this.getTokenScope(provider, space)
+
+    // Get the stored change token
+    const changeToken = await searchClient.getChangeToken(tokenScope)
+    
+    if (!changeToken) {
+      // Space we haven't tracked yet (e.g. a shared drive the user was just added to)
+      return this.indexNewSpace(provider, space)
+    }
+
+    // Get changes since the stored token
+    let allChanges: Parameters<typeof searchClient.processChanges>[0] = []
+
+    let nextPageToken = changeToken
+    let newStartPageToken: string | undefined
+    let hasMorePages = true
+
+    while (hasMorePages) {
+      try {
+        const result = await provider.getChanges(nextPageToken, space.id)
+        
+        // Filter out changes we don't care about
+        const relevantChanges = result.changes
+          .filter(change => {
+            // Skip if removed (we'll handle these)
+            if (change.removed) return true
+            // Skip if no file data
+            if (!change.file) return false
+            // Keep folders: moving or renaming one changes the path of everything inside it
+            return true
+          })
+          .map(change => ({
+            ...change,
+            file: change.file && sourceRegistry.normalizeFile(provider, change.file, space),
+            source: provider.id // A removal only drops this source; another account may still have the file
+          }))
+
+        allChanges.push(...relevantChanges)
+        
+        if (result.newStartPageToken) {
+          // We've reached the end; the new token is saved once the changes are applied
+          newStartPageToken = result.newStartPageToken
+          hasMorePages = false
+        } else if (result.nextPageToken) {
+          // More pages to fetch
+          nextPageToken = result.nextPageToken
+        } else {
+          // No more pages
+          hasMorePages = false
+        }
+      } catch (error) {
+        console.error('Error fetching changes page:', error)
+        break
+      }
+    }
+
+    // Process the changes
+    if (allChanges.length > 0) {
+      await searchClient.processChanges(allChanges)
+    }
+    if (newStartPageToken) {
+      await searchClient.saveChangeToken(newStartPageToken, tokenScope)
+    }
+
+    return allChanges.length
+  }
+
+  /**
+   * List every file in a space that isn't tracked yet and add it to the index
+   * The change token is taken before listing so nothing changed meanwhile is missed
+   */
+  private async indexNewSpace(provider: SourceProvider, space: SourceSpace): Promise<number> {
+    console.log(`🆕 Indexing ${provider.name} "${space.name}"...`)
+    const startToken = await provider.getStartPageToken(space.id)
+
+    const files: DriveFile[] = []
+    let pageToken: string | undefined
+    do {
+      const result = await provider.listFiles(pageToken, space.id)
+      files.push(...result.files.map(file => sourceRegistry.normalizeFile(provider, file, space)))
+      pageToken = result.nextPageToken
+    } while (pageToken)
+
+    if (files.length > 0) {
+      await searchClient.processChanges(files.map(file => ({ fileId: file.id, removed: false, file })))
+    }
+    await searchClient.saveChangeToken(startToken, this.getTokenScope(provider, space))
+
+    console.log(`✅ Indexed ${files.length} files from ${provider.name} "${space.name}"`)
+    return files.length
+  }
+
+  /**
+   * Store a change token taken before a space was listed, once its files are in the index
+   */
+  async saveStartToken(provider: SourceProvider, space: SourceSpace, startToken: string): Promise<void> {
+    await searchClient.saveChangeToken(startToken, this.getTokenScope(provider, space))
+  }
+
+  /**
+   * Drop the change tokens of every space of a source, e.g. when its account is removed,
+   * so connecting it again lists everything instead of only later changes
+   */
+  async resetChangeTracking(provider: SourceProvider): Promise<void> {
+    let spaces: SourceSpace[] = [{ name: provider.name }]
     try {
-      console.log('🎯 Initializing change tracking...')
-      const startToken = await googleDriveService.getStartPageToken()
-      await searchService.saveChangeToken(startToken)
-      console.log('✅ Change tracking initialized with token:', startToken.substring(0, 20) + '...')
+      spaces = await provider.listSpaces()
     } catch (error) {
-      console.error('❌ Failed to initialize change tracking:', error)
+      console.warn(`⚠️ Failed to list spaces for ${provider.name}, resetting its default space only:`, error)
     }
+
+    for (const space of spaces) {
+      await searchClient.clearChangeToken(this.getTokenScope(provider, space))
+    }
+  }
+
+  /**
+   * Storage scope of a space's change token
+   * Google Drive tokens predate source providers and keep their original keys
+   */
+  private getTokenScope(provider: SourceProvider, space: SourceSpace): string | undefined {
+    if (provider.id === DEFAULT_SOURCE_ID) return space.id
+    return space.id ? `${provider.id}-${space.id}` : provider.id
   }
 
   /**
@@ -0,0 +1,117 @@
+import { searchClient } from './searchClient'
+import { sourceRegistry } from './sources'
+import type { FileContent } from './persistentSearch'
+import { MAX_CONTENT_LENGTH } from './searchConstants'
+import { isNodeEnvironment } from './storage'
+
+const CONTENT_INDEXING_KEY = 'contentIndexing'
+const BATCH_SIZE = 25
+const MAX_FILES_PER_RUN = 500 // The rest is picked up by the next sync
+
+/**
+ * Opt-in full-text indexing
+ * Fetches the text of indexed files from their source (Docs, Sheets and Slides exported
+ * as text, plain-text and markdown files as they are) and hands it to the index. Runs
+ * after every sync and only fetches files that are new or modified since their text was taken.
+ */
+class ContentIndexer {
+  private enabled: boolean | null = null // Loaded from settings on first use
+  private isRunning: boolean = false
+
+  async isEnabled(): Promise<boolean> {
+    if (this.enabled === null) {
+      this.enabled = await this.loadSetting()
+    }
+    return this.enabled
+  }
+
+  /**
+   * Turn content indexing on or off; turning it off drops the text already stored
+   */
+  async setEnabled(enabled: boolean): Promise<void> {
+    this.enabled = enabled
+    await this.saveSetting(enabled)
+    if (!enabled) {
+      await searchClient.clearFileContents()
+    }
+  }
+
+  /**
+   * Fetch text for files that have none yet or changed since it was taken
+   * Returns the number of files whose text was stored
+   */
+  async indexPendingContent(): Promise<number> {
+    if (this.isRunning || !await this.isEnabled()) return 0
+    this.isRunning = true
+
+    let indexed = 0
+    const failedIds = new Set<string>() // Tried again on the next run
+    try {
+      while (indexed < MAX_FILES_PER_RUN) {
+        const files = (await searchClient.getFilesNeedingContent(BATCH_SIZE + failedIds.size))
+          .filter(file => !failedIds.has(file.id))
+        if (files.length === 0) break
+
+        const contents: FileContent[] = []
+        for (const file of files) {
+          const provider = sourceRegistry.getForFile(file)
+          if (!provider?.isAuthenticated()) {
+            failedIds.add(file.id)
+            continue
+          }
+
+          try {
+            const text = provider.getFileContent ? await provider.getFileContent(file) : null
+            contents.push({
+              fileId: file.id,
+              content: (text || '').slice(0, MAX_CONTENT_LENGTH),
+              modifiedTime: file.modifiedTime
+            })
+          } catch (error) {
+            console.warn(`⚠️ Failed to fetch the text of "${file.name}":`, error)
+            failedIds.add(file.id)
+          }
+        }
+
+        // Nothing in the batch could be fetched; most likely offline or signed out
+        if (contents.length === 0) break
+
+        await searchClient.setFileContents(contents)
+        indexed += contents.length
+      }
+    } finally {
+      this.isRunning = false
+    }
+
+    if (indexed > 0) {
+      console.log(`📝 Indexed the text of ${indexed} files`)
+    }
+    return indexed
+  }
+
+  private async loadSetting(): Promise<boolean> {
+    try {
+      if (isNodeEnvironment()) return false // The CLI turns it on with --content
+      if (typeof chrome !== 'undefined' && chrome.storage) {
+        const result = await chrome.storage.local.get([CONTENT_INDEXING_KEY])
+        return result[CONTENT_INDEXING_KEY] === true
+      }
+      return localStorage.getItem(CONTENT_INDEXING_KEY) === 'true'
+    } catch (error) {
+      console.error('Failed to load content indexing setting:', error)
+      return false
+    }
+  }
+
+  private async saveSetting(enabled: boolean): Promise<void> {
+    if (isNodeEnvironment()) return
+    if (typeof chrome !== 'undefined' && chrome.storage) {
+      await chrome.storage.local.set({ [CONTENT_INDEXING_KEY]: enabled })
+    } else {
+      localStorage.setItem(CONTENT_INDEXING_KEY, String(enabled))
+    }
+  }
+}
+
+// Export singleton instance
+export const contentIndexer = new ContentIndexer()
@@ -1,36 +1,112 @@
-import { authService } from "./auth"
-import type { DriveFile, SearchResult, FileSearchQuery, DriveService } from "~types"
+import { authService, type AuthService } from "./auth"
+import { fetchWithRetry, type RetryOptions } from "./request"
+import type {
+  DriveFile,
+  SearchResult,
+  FileSearchQuery,
+  DriveService,
+  SharedDrive,
+  SourceProvider,
+  SourceSpace,
+  FileTypeFilter
+} from "~types"
 
 const DRIVE_API_BASE_URL = "https://www.googleapis.com/drive/v3"
-const DEFAULT_FIELDS = "nextPageToken,files(id,name,mimeType,parents,webViewLink,iconLink,thumbnailLink,modifiedTime,size,owners,lastModifyingUser)"
+const DEFAULT_FIELDS = "nextPageToken,files(id,name,mimeType,parents,webViewLink,iconLink,thumbnailLink,modifiedTime,size,owners,lastModifyingUser,driveId)"
+
+export const GOOGLE_DRIVE_SOURCE_ID = "google-drive"
+
+// Google files are exported to text in these formats; Sheets export their first sheet only
+const CONTENT_EXPORT_TYPES: Record<string, string> = {
+  "application/vnd.google-apps.document": "text/plain",
+  "application/vnd.google-apps.presentation": "text/plain",
+  "application/vnd.google-apps.spreadsheet": "text/csv"
+}
+
+// Uploaded files that are already text and can be downloaded as they are
+const TEXT_MIME_TYPES = ["text/plain", "text/markdown", "text/x-markdown", "text/csv"]
+
+/**
+ * Google Drive for one account
+ * The primary account keeps the original source ID; added accounts get "google-drive:<email>"
+ */
+export class GoogleDriveService implements DriveService, SourceProvider {
+  readonly id: string
+  readonly name = "Google Drive"
+  readonly icon = "🟢"
+
+  constructor(
+    private auth: AuthService = authService,
+    accountEmail?: string,
+    private retryOptions: RetryOptions = {} // Backoff for rate limits and server errors
+  ) {
+    this.id = accountEmail ? `${GOOGLE_DRIVE_SOURCE_ID}:${accountEmail}` : GOOGLE_DRIVE_SOURCE_ID
+  }
+
+  get account(): string | undefined {
+    return this.auth.getAccountEmail()
+  }
 
-class GoogleDriveService implements DriveService {
   async authenticate(): Promise<boolean> {
-    await authService.initialize()
-    if (authService.isAuthenticated()) {
+    await this.auth.initialize()
+    if (this.auth.isAuthenticated()) {
       return true
     }
-    return authService.authenticate()
+    return this.auth.authenticate()
   }
 
   isAuthenticated(): boolean {
-    return authService.isAuthenticated()
+    return this.auth.isAuthenticated()
   }
 
-  async listFiles(pageToken?: string): Promise<SearchResult> {
+  async listFiles(pageToken?: string, driveId?: string): Promise<SearchResult> {
     return this.searchFiles({
       query: "",
       maxResults: 50,
-      pageToken
+      pageToken,
+      driveId
     })
   }
 
-  async searchFiles(searchQuery: FileSearchQuery): Promise<SearchResult> {
-    const accessToken = authService.getAccessToken()
-    if (!accessToken) {
-      throw new Error("Not authenticated")
-    }
+  /**
+   * My Drive plus every shared drive, each with its own listing and change log
+   */
+  async listSpaces(): Promise<SourceSpace[]> {
+    const sharedDrives = await this.listSharedDrives()
+    return [{ name: "My Drive" }, ...sharedDrives]
+  }
+
+  /**
+   * List the shared drives (Team Drives) the user is a member of
+   */
+  async listSharedDrives(): Promise<SharedDrive[]> {
+    const drives: SharedDrive[] = []
+    let pageToken: string | undefined
+
+    do {
+      const params = new URLSearchParams({
+        fields: "nextPageToken,drives(id,name)",
+        pageSize: "100"
+      })
+      if (pageToken) {
+        params.append("pageToken", pageToken)
+      }
+
+      const response = await this.fetchDrive(`${DRIVE_API_BASE_URL}/drives?${params.toString()}`)
+
+      if (!response.ok) {
+        throw new Error(`Drive API error: ${response.status} ${response.statusText}`)
+      }
+
+      const data = await response.json()
+      drives.push(...(data.drives || []).map((drive: any) => ({ id: drive.id, name: drive.name })))
+      pageToken = data.nextPageToken
+    } while (pageToken)
 
+    return drives
+  }
+
+  async searchFiles(searchQuery: FileSearchQuery): Promise<SearchResult> {
     // Try fullText search first, fallback to name-only if it fails
     try {
       return await this.performSearch(searchQuery, true)
@@ -50,20 +126,25 @@ class GoogleDriveService implements DriveService {
   }
 
   private async performSearch(searchQuery: FileSearchQuery, useFullText: boolean): Promise<SearchResult> {
-    const accessToken = authService.getAccessToken()
-    if (!accessToken) {
-      throw new Error("Not authenticated")
-    }
-
     const params = new URLSearchParams({
       fields: DEFAULT_FIELDS,
-      pageSize: (searchQuery.maxResults || 50).toString()
+      pageSize: (searchQuery.maxResults || 50).toString(),
+      supportsAllDrives: "true"
     })
 
     if (searchQuery.pageToken) {
       params.append("pageToken", searchQuery.pageToken)
     }
 
+    // Shared drives are listed one at a time; without a driveId we list My Drive and files shared with the user
+    if (searchQuery.driveId) {
+      params.append("corpora", "drive")
+      params.append("driveId", searchQuery.driveId)
+      params.append("includeItemsFromAllDrives", "true")
+    } else {
+      params.append("corpora", "user")
+    }
+
     // Build the query string for Google Drive API
     let q = "trashed=false" // Exclude trashed files
 
@@ -85,19 +166,9 @@ class GoogleDriveService implements DriveService {
     params.append("q", q)
     params.append("orderBy", "modifiedTime desc,name")
 
-    const response = await fetch(`${DRIVE_API_BASE_URL}/files?${params.toString()}`, {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json'
-      }
-    })
+    const response = await this.fetchDrive(`${DRIVE_API_BASE_URL}/files?${params.toString()}`)
 
     if (!response.ok) {
-      if (response.status === 401) {
-        // Token expired, try to refresh
-        await authService.signOut()
-        throw new Error("Authentication expired. Please sign in again.")
-      }
       throw new Error(`Drive API error: ${response.status} ${response.statusText}`)
     }
 
@@ -110,22 +181,13 @@ class GoogleDriveService implements DriveService {
   }
 
   async getFileMetadata(fileId: string): Promise<DriveFile> {
-    const accessToken = authService.getAccessToken()
-    if (!accessToken) {
-      throw new Error("Not authenticated")
-    }
-
     try {
       const params = new URLSearchParams({
-        fields: DEFAULT_FIELDS.replace("nextPageToken,files(", "").replace(")", "")
+        fields: DEFAULT_FIELDS.replace("nextPageToken,files(", "").replace(")", ""),
+        supportsAllDrives: "true"
       })
 
-      const response = await fetch(`${DRIVE_API_BASE_URL}/files/${fileId}?${params.toString()}`, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json'
-        }
-      })
+      const response = await this.fetchDrive(`${DRIVE_API_BASE_URL}/files/${fileId}?${params.toString()}`)
 
       if (!response.ok) {
         throw new Error(`Failed to get file metadata: ${response.status} ${response.statusText}`)
@@ -139,6 +201,53 @@ class GoogleDriveService implements DriveService {
     }
   }
 
+  getOpenUrl(file: DriveFile): string {
+    const url = file.webViewLink || `https://drive.google.com/file/d/${file.id}/view`
+    if (this.id === GOOGLE_DRIVE_SOURCE_ID || !this.account) return url
+
+    // Open files of an added account in that account rather than the browser's default one
+    const openUrl = new URL(url)
+    openUrl.searchParams.set("authuser", this.account)
+    return openUrl.toString()
+  }
+
+  getFileType(file: DriveFile): FileTypeFilter | undefined {
+    const mimeType = file.mimeType
+    if (mimeType === "application/vnd.google-apps.folder") return "folders"
+    if (mimeType.includes("pdf")) return "pdfs"
+    if (mimeType.includes("spreadsheet")) return "spreadsheets"
+    if (mimeType.includes("presentation")) return "presentations"
+    if (mimeType.includes("document")) return "documents"
+    if (mimeType.startsWith("image/")) return "images"
+    if (mimeType.startsWith("video/")) return "videos"
+    if (mimeType.startsWith("audio/")) return "audio"
+    return undefined
+  }
+
+  /**
+   * Text of a Google Doc, Sheet or Slides deck, or of an uploaded text/markdown file
+   * Returns null for every other type
+   */
+  async getFileContent(file: DriveFile): Promise<string | null> {
+    const exportType = CONTENT_EXPORT_TYPES[file.mimeType]
+    let url: string
+    if (exportType) {
+      const params = new URLSearchParams({ mimeType: exportType })
+      url = `${DRIVE_API_BASE_URL}/files/${file.id}/export?${params.toString()}`
+    } else if (TEXT_MIME_TYPES.includes(file.mimeType)) {
+      const params = new URLSearchParams({ alt: "media", supportsAllDrives: "true" })
+      url = `${DRIVE_API_BASE_URL}/files/${file.id}?${params.toString()}`
+    } else {
+      return null
+    }
+
+    const response = await this.fetchDrive(url)
+    if (!response.ok) {
+      throw new Error(`Drive API error: ${response.status} ${response.statusText}`)
+    }
+    return response.text()
+  }
+
   openFile(fileId: string): void {
     const file = { webViewLink: `https://drive.google.com/file/d/${fileId}/view` }
     
@@ -151,6 +260,36 @@ class GoogleDriveService implements DriveService {
     }
   }
 
+  /**
+   * Authorized Drive API request
+   * Rate limits and server errors are retried with backoff; on a 401 the access token
+   * is refreshed silently and the request retried once
+   */
+  private async fetchDrive(url: string): Promise<Response> {
+    const send = async (accessToken: string) => fetchWithRetry(url, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      }
+    }, this.retryOptions)
+
+    const accessToken = await this.auth.getValidAccessToken()
+    if (!accessToken) {
+      throw new Error(this.auth.needsReauth() ? "Authentication expired. Please sign in again." : "Not authenticated")
+    }
+
+    const response = await send(accessToken)
+    if (response.status !== 401) {
+      return response
+    }
+
+    // Token was revoked or expired early - refresh it and try once more
+    if (!await this.auth.refreshAccessToken()) {
+      throw new Error("Authentication expired. Please sign in again.")
+    }
+    return send(this.auth.getAccessToken()!)
+  }
+
   private transformDriveFile(file: any): DriveFile {
     return {
       id: file.id,
@@ -163,7 +302,8 @@ class GoogleDriveService implements DriveService {
       modifiedTime: file.modifiedTime,
       size: file.size,
       owners: file.owners,
-      lastModifyingUser: file.lastModifyingUser
+      lastModifyingUser: file.lastModifyingUser,
+      driveId: file.driveId
     }
   }
 
@@ -201,27 +341,18 @@ class GoogleDriveService implements DriveService {
   }
 
   /**
-   * Get the current change token for the user's Drive
+   * Get the current change token for the user's Drive, or for one shared drive
    * This token can be used to track changes since this point in time
    */
-  async getStartPageToken(): Promise<string> {
-    const accessToken = authService.getAccessToken()
-    if (!accessToken) {
-      throw new Error("Not authenticated")
+  async getStartPageToken(driveId?: string): Promise<string> {
+    const params = new URLSearchParams({ supportsAllDrives: "true" })
+    if (driveId) {
+      params.append("driveId", driveId)
     }
 
-    const response = await fetch(`${DRIVE_API_BASE_URL}/changes/startPageToken`, {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json'
-      }
-    })
+    const response = await this.fetchDrive(`${DRIVE_API_BASE_URL}/changes/startPageToken?${params.toString()}`)
 
     if (!response.ok) {
-      if (response.status === 401) {
-        await authService.signOut()
-        throw new Error("Authentication expired. Please sign in again.")
-      }
       throw new Error(`Drive API error: ${response.status} ${response.statusText}`)
     }
 
@@ -230,10 +361,10 @@ class GoogleDriveService implements DriveService {
   }
 
   /**
-   * Get changes since the specified page token
+   * Get changes since the specified page token, for My Drive or one shared drive
    * Returns list of changed files and a new page token
    */
-  async getChanges(pageToken: string): Promise<{
+  async getChanges(pageToken: string, driveId?: string): Promise<{
     changes: Array<{
       fileId: string
       removed: boolean
@@ -242,28 +373,21 @@ class GoogleDriveService implements DriveService {
     nextPageToken: string
     newStartPageToken?: string
   }> {
-    const accessToken = authService.getAccessToken()
-    if (!accessToken) {
-      throw new Error("Not authenticated")
-    }
-
     const params = new URLSearchParams({
       pageToken,
-      fields: `nextPageToken,newStartPageToken,changes(fileId,removed,file(${DEFAULT_FIELDS.replace('nextPageToken,files(', '').replace(')', '')}))`
+      fields: `nextPageToken,newStartPageToken,changes(fileId,removed,file(${DEFAULT_FIELDS.replace('nextPageToken,files(', '').replace(')', '')}))`,
+      supportsAllDrives: "true"
     })
 
-    const response = await fetch(`${DRIVE_API_BASE_URL}/changes?${params.toString()}`, {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json'
-      }
-    })
+    // Shared drive changes come from each drive's own change log
+    if (driveId) {
+      params.append("driveId", driveId)
+      params.append("includeItemsFromAllDrives", "true")
+    }
+
+    const response = await this.fetchDrive(`${DRIVE_API_BASE_URL}/changes?${params.toString()}`)
 
     if (!response.ok) {
-      if (response.status === 401) {
-        await authService.signOut()
-        throw new Error("Authentication expired. Please sign in again.")
-      }
       throw new Error(`Drive API error: ${response.status} ${response.statusText}`)
     }
 
@@ -281,5 +405,5 @@ class GoogleDriveService implements DriveService {
   }
 }
 
-// Export singleton instance
+// Export the primary account's instance
 export const googleDriveService = new GoogleDriveService()
\ No newline at end of file
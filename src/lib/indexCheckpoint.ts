@@ -0,0 +1,96 @@
+import { createStorage, joinPath, getCurrentDirectory, type StorageInterface } from './storage'
+import type { DriveFile, SourceSpace } from '~types'
+
+export interface CheckpointSpace extends SourceSpace {
+  startToken?: string // Change token taken before the space was listed
+}
+
+export interface IndexCheckpoint {
+  startedAt: string
+  sources: Array<{ sourceId: string; spaces: CheckpointSpace[] }> // Everything this run will list
+  position: {
+    sourceIndex: number
+    spaceIndex: number
+    pageToken?: string // Next page of the current space; undefined at the start of a space
+  }
+  pageCount: number // Pages of files saved so far
+  fileCount: number
+}
+
+/**
+ * Progress of a full index build, saved after every page
+ * Each fetched page is stored as its own chunk so a checkpoint write stays small;
+ * an interrupted run picks up from the last saved page instead of starting over
+ */
+class IndexCheckpointStore {
+  private storage: StorageInterface
+  private checkpointKey: string
+  private pageKeyPrefix: string
+  private indexDir?: string
+
+  constructor(userId: string = 'default') {
+    this.storage = createStorage()
+
+    // Same layout as the search index: files in Node.js, keys in the browser
+    if (typeof process !== 'undefined' && process.versions?.node) {
+      this.indexDir = joinPath(getCurrentDirectory(), 'data', 'indexes')
+      this.checkpointKey = joinPath(this.indexDir, `${userId}-index-checkpoint.json`)
+      this.pageKeyPrefix = joinPath(this.indexDir, `${userId}-index-checkpoint-page-`)
+    } else {
+      this.checkpointKey = `${userId}-index-checkpoint.json`
+      this.pageKeyPrefix = `${userId}-index-checkpoint-page-`
+    }
+  }
+
+  async load(): Promise<IndexCheckpoint | null> {
+    try {
+      if (await this.storage.exists(this.checkpointKey)) {
+        return JSON.parse(await this.storage.read(this.checkpointKey))
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to read indexing checkpoint, starting over:', error)
+    }
+    return null
+  }
+
+  async save(checkpoint: IndexCheckpoint): Promise<void> {
+    if (this.indexDir) {
+      await this.storage.ensureDirectory(this.indexDir)
+    }
+    await this.storage.write(this.checkpointKey, JSON.stringify(checkpoint))
+  }
+
+  /**
+   * Store one fetched page; the checkpoint is saved afterwards, so a page written
+   * before a crash is simply overwritten when the run resumes
+   */
+  async savePage(pageIndex: number, files: DriveFile[]): Promise<void> {
+    if (this.indexDir) {
+      await this.storage.ensureDirectory(this.indexDir)
+    }
+    await this.storage.write(this.getPageKey(pageIndex), JSON.stringify(files))
+  }
+
+  async loadFiles(checkpoint: IndexCheckpoint): Promise<DriveFile[]> {
+    const files: DriveFile[] = []
+    for (let i = 0; i < checkpoint.pageCount; i++) {
+      files.push(...JSON.parse(await this.storage.read(this.getPageKey(i))))
+    }
+    return files
+  }
+
+  async clear(checkpoint?: IndexCheckpoint | null): Promise<void> {
+    const saved = checkpoint ?? await this.load()
+    for (let i = 0; i < (saved?.pageCount ?? 0); i++) {
+      await this.storage.delete(this.getPageKey(i))
+    }
+    await this.storage.delete(this.checkpointKey)
+  }
+
+  private getPageKey(pageIndex: number): string {
+    return `${this.pageKeyPrefix}${pageIndex}.json`
+  }
+}
+
+// Export singleton instance
+export const indexCheckpointStore = new IndexCheckpointStore()
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { displayToRaw, parseDateToken, parseFilterInput, toSearchFilters } from './inputParser'
+
+// Thursday 15 October 2026, mid-afternoon; weeks start on Monday the 12th
+const NOW = new Date(2026, 9, 15, 14, 30)
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date)
+
+describe('parseDateToken', () => {
+  describe('named periods', () => {
+    it.each([
+      ['today', { start: day(2026, 10, 15) }],
+      ['yesterday', { start: day(2026, 10, 14), end: day(2026, 10, 15) }],
+      ['thisweek', { start: day(2026, 10, 12) }],
+      ['lastweek', { start: day(2026, 10, 5), end: day(2026, 10, 12) }],
+      ['thismonth', { start: day(2026, 10, 1) }],
+      ['lastmonth', { start: day(2026, 9, 1), end: day(2026, 10, 1) }],
+      ['thisyear', { start: day(2026, 1, 1) }],
+      ['lastyear', { start: day(2025, 1, 1), end: day(2026, 1, 1) }]
+    ])('%s', (token, range) => {
+      expect(parseDateToken(token, NOW)).toEqual(range)
+    })
+
+    it('accepts spaces and any case after modified:', () => {
+      expect(parseDateToken('modified:Last Month', NOW)).toEqual({ start: day(2026, 9, 1), end: day(2026, 10, 1) })
+    })
+
+    it('bounds a period from one side with before: and after:', () => {
+      expect(parseDateToken('before:thisweek', NOW)).toEqual({ end: day(2026, 10, 12) })
+      expect(parseDateToken('after:lastmonth', NOW)).toEqual({ start: day(2026, 9, 1) })
+    })
+  })
+
+  describe('absolute dates', () => {
+    it('before: ends at the start of the day', () => {
+      expect(parseDateToken('before:2026-01-01', NOW)).toEqual({ end: day(2026, 1, 1) })
+    })
+
+    it('after: starts at the start of the day', () => {
+      expect(parseDateToken('after:2025-12-24', NOW)).toEqual({ start: day(2025, 12, 24) })
+    })
+
+    it('modified: covers that calendar day', () => {
+      expect(parseDateToken('modified:2026-03-01', NOW)).toEqual({ start: day(2026, 3, 1), end: day(2026, 3, 2) })
+    })
+
+    it('rejects days that do not exist', () => {
+      expect(parseDateToken('before:2026-02-31', NOW)).toBeNull()
+      expect(parseDateToken('after:2026-13-01', NOW)).toBeNull()
+    })
+  })
+
+  describe('relative ages', () => {
+    it.each([
+      ['after:3d', day(2026, 10, 12)],
+      ['after:2w', day(2026, 10, 1)],
+      ['after:6m', day(2026, 4, 15)],
+      ['after:1y', day(2025, 10, 15)],
+      ['after:10 days', day(2026, 10, 5)],
+      ['after:2 weeks ago', day(2026, 10, 1)]
+    ])('%s', (token, start) => {
+      expect(parseDateToken(token, NOW)).toEqual({ start })
+    })
+
+    it('before: ends where the age begins', () => {
+      expect(parseDateToken('before:3d', NOW)).toEqual({ end: day(2026, 10, 12) })
+    })
+
+    it('modified: with an age means since then', () => {
+      expect(parseDateToken('modified:3d', NOW)).toEqual({ start: day(2026, 10, 12) })
+    })
+
+    it('needs a prefix', () => {
+      expect(parseDateToken('3d', NOW)).toBeNull()
+      expect(parseDateToken('2026-01-01', NOW)).toBeNull()
+    })
+  })
+
+  it('returns null for anything else', () => {
+    expect(parseDateToken('docs', NOW)).toBeNull()
+    expect(parseDateToken('after:soon', NOW)).toBeNull()
+    expect(parseDateToken('modified:3 fortnights', NOW)).toBeNull()
+  })
+})
+
+describe('parseFilterInput dates', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('turns @date tokens into pills and a date range', () => {
+    const parsed = parseFilterInput(displayToRaw('budget @thisweek'))
+
+    expect(parsed.cleanQuery).toBe('budget')
+    expect(parsed.dates.map(date => date.label)).toEqual(['@thisweek'])
+    expect(toSearchFilters(parsed).dateRange).toEqual({ start: day(2026, 10, 12), end: undefined })
+  })
+
+  it('keeps unknown date values as plain text', () => {
+    const parsed = parseFilterInput(displayToRaw('budget @before:someday'))
+
+    expect(parsed.dates).toEqual([])
+    expect(parsed.cleanQuery).toBe('budget @before:someday')
+  })
+
+  it('reads modified: phrases typed as plain text', () => {
+    const parsed = parseFilterInput('notes modified:last month')
+
+    expect(parsed.cleanQuery).toBe('notes')
+    expect(parsed.dates).toMatchObject([{ label: 'modified:last month', range: { start: day(2026, 9, 1), end: day(2026, 10, 1) } }])
+  })
+
+  it('intersects several date filters', () => {
+    const parsed = parseFilterInput(displayToRaw('report @after:2026-09-15 @lastmonth'))
+
+    expect(toSearchFilters(parsed).dateRange).toEqual({ start: day(2026, 9, 15), end: day(2026, 10, 1) })
+  })
+})
+
+describe('displayToRaw', () => {
+  it('turns complete @filters into tags', () => {
+    expect(displayToRaw('budget @docs @in:Finance')).toBe('budget <filter>docs</filter> <filter>in:Finance</filter>')
+  })
+
+  it('keeps unknown @words as text', () => {
+    expect(displayToRaw('email @someone')).toBe('email @someone')
+  })
+
+  describe('while typing', () => {
+    it.each(['@in:Fin', '@owner:ali', '@by:"Alex', '@drive:Mark', '@after:3'])('leaves %s at the end unfinished', token => {
+      expect(displayToRaw(`budget ${token}`, { typing: true })).toBe(`budget ${token}`)
+    })
+
+    it('commits a value operator once a space follows', () => {
+      expect(displayToRaw('budget @in:Finance ', { typing: true })).toBe('budget <filter>in:Finance</filter> ')
+      expect(displayToRaw('@in:Finance budget', { typing: true })).toBe('<filter>in:Finance</filter> budget')
+    })
+
+    it('commits quoted values once a space follows', () => {
+      expect(displayToRaw('@in:"Q3 Planning" ', { typing: true })).toBe('<filter>in:"Q3 Planning"</filter> ')
+    })
+
+    it('still commits filter words at the end', () => {
+      expect(displayToRaw('budget @docs', { typing: true })).toBe('budget <filter>docs</filter>')
+    })
+  })
+})
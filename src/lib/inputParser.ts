@@ -1,4 +1,6 @@
-import type { FileTypeFilter } from './persistentSearch'
+import type { FileTypeFilter, SearchFilters } from './persistentSearch'
+import { MY_DRIVE_NAME } from './searchConstants'
+import { parseQuery, QuerySyntaxError } from './queryParser'
 
 export interface ParsedFilter {
   key: FileTypeFilter
@@ -7,22 +9,174 @@ export interface ParsedFilter {
   endPos: number
 }
 
+export interface ParsedFolderScope {
+  folder: string
+  display: string
+  startPos: number
+  endPos: number
+}
+
+export interface ParsedDriveFilter {
+  drive: string
+  display: string
+  startPos: number
+  endPos: number
+}
+
+export interface ParsedPersonFilter {
+  role: 'owner' | 'modifier'
+  person: string
+  display: string
+  startPos: number
+  endPos: number
+}
+
+export type DateRange = NonNullable<SearchFilters['dateRange']>
+
+export interface ParsedDateFilter {
+  label: string // As shown on the pill, e.g. "@thisweek" or "modified:last month"
+  range: DateRange
+  display: string
+  startPos: number
+  endPos: number
+}
+
 export interface ParsedInput {
   rawValue: string
   displayValue: string
   filters: ParsedFilter[]
+  folderScopes: ParsedFolderScope[]
+  people: ParsedPersonFilter[]
+  dates: ParsedDateFilter[]
+  drives: ParsedDriveFilter[]
   cleanQuery: string
+  queryError?: QueryError // cleanQuery doesn't follow the query grammar; it is searched as plain words
+}
+
+export interface QueryError {
+  message: string
+  position: number // Offset in cleanQuery
 }
 
 export interface FilterOption {
-  key: FileTypeFilter
+  key: string
   display: string
   label: string
   description: string
   icon: string
 }
 
-export const FILTER_OPTIONS: FilterOption[] = [
+export interface FileTypeOption extends FilterOption {
+  key: FileTypeFilter
+}
+
+// Prefixes of operators that take a value: @in:Marketing, @owner:priya, @by:"Priya Shah"
+export const FOLDER_SCOPE_PREFIX = 'in:'
+export const OWNER_PREFIX = 'owner:'
+export const MODIFIER_PREFIX = 'by:'
+export const BEFORE_PREFIX = 'before:'
+export const AFTER_PREFIX = 'after:'
+export const MODIFIED_PREFIX = 'modified:'
+export const DRIVE_PREFIX = 'drive:'
+
+export const FOLDER_SCOPE_OPTION: FilterOption = {
+  key: FOLDER_SCOPE_PREFIX,
+  display: FOLDER_SCOPE_PREFIX,
+  label: 'In folder',
+  description: 'Only files inside a folder',
+  icon: '📂'
+}
+
+export const OWNER_OPTION: FilterOption = {
+  key: OWNER_PREFIX,
+  display: OWNER_PREFIX,
+  label: 'Owner',
+  description: 'Files owned by someone',
+  icon: '👤'
+}
+
+export const MODIFIER_OPTION: FilterOption = {
+  key: MODIFIER_PREFIX,
+  display: MODIFIER_PREFIX,
+  label: 'Modified by',
+  description: 'Files someone edited last',
+  icon: '✏️'
+}
+
+export const DRIVE_OPTION: FilterOption = {
+  key: DRIVE_PREFIX,
+  display: DRIVE_PREFIX,
+  label: 'Drive',
+  description: 'Only files in My Drive or a shared drive',
+  icon: '🗂️'
+}
+
+export const BEFORE_OPTION: FilterOption = {
+  key: BEFORE_PREFIX,
+  display: BEFORE_PREFIX,
+  label: 'Modified before',
+  description: 'A date (2026-01-01) or age (3d, 2w, 6m)',
+  icon: '⏮️'
+}
+
+export const AFTER_OPTION: FilterOption = {
+  key: AFTER_PREFIX,
+  display: AFTER_PREFIX,
+  label: 'Modified after',
+  description: 'A date (2026-01-01) or age (3d, 2w, 6m)',
+  icon: '⏭️'
+}
+
+// Options that insert a prefix and then autocomplete a value
+export const VALUE_FILTER_OPTIONS: FilterOption[] = [
+  FOLDER_SCOPE_OPTION,
+  OWNER_OPTION,
+  MODIFIER_OPTION,
+  DRIVE_OPTION,
+  BEFORE_OPTION,
+  AFTER_OPTION
+]
+
+// @modified:<date> also works, but is not offered in the popup
+const VALUE_PREFIXES = [...VALUE_FILTER_OPTIONS.map(option => option.key), MODIFIED_PREFIX]
+
+const DATE_PREFIXES = [BEFORE_PREFIX, AFTER_PREFIX, MODIFIED_PREFIX]
+
+// Modification-date shortcuts usable as plain @words
+export const DATE_OPTIONS: FilterOption[] = [
+  { key: 'today', display: 'today', label: 'Today', description: 'Modified today', icon: '📅' },
+  { key: 'yesterday', display: 'yesterday', label: 'Yesterday', description: 'Modified yesterday', icon: '📅' },
+  { key: 'thisweek', display: 'thisweek', label: 'This week', description: 'Modified since Monday', icon: '📅' },
+  { key: 'lastweek', display: 'lastweek', label: 'Last week', description: 'Modified last week', icon: '📅' },
+  { key: 'thismonth', display: 'thismonth', label: 'This month', description: 'Modified this month', icon: '📅' },
+  { key: 'lastmonth', display: 'lastmonth', label: 'Last month', description: 'Modified last month', icon: '📅' }
+]
+
+// Age suggestions offered after @before: and @after:
+const DATE_VALUE_SUGGESTIONS = [
+  { value: 'today', description: 'Start of today' },
+  { value: '7d', description: '7 days ago' },
+  { value: '30d', description: '30 days ago' },
+  { value: '3m', description: '3 months ago' },
+  { value: '1y', description: '1 year ago' }
+]
+
+// Natural-language date typed without @, e.g. "budget modified:last month"
+const PLAIN_DATE_REGEX = /(^|\s)(modified:((?:this|last)\s*(?:week|month|year)|today|yesterday|\d+\s*[a-z]+(?:\s+ago)?|\d{4}-\d{2}-\d{2}))(?=\s|$)/gi
+
+// Matches a complete @token in display text: a known filter word or a prefix:value operator
+const DISPLAY_TOKEN_REGEX = new RegExp(
+  `@((?:${VALUE_PREFIXES.join('|')})(?:"[^"<]+"|[^\\s"@<]+)|[a-zA-Z]+)(?=\\s|$)`,
+  'g'
+)
+
+export interface FilterSuggestions {
+  folders?: (prefix: string) => Array<{ name: string; path?: string }>
+  people?: (prefix: string) => Array<{ displayName: string; emailAddress: string }>
+  drives?: (prefix: string) => string[]
+}
+
+export const FILTER_OPTIONS: FileTypeOption[] = [
   {
     key: 'documents',
     display: 'docs',
@@ -88,6 +242,10 @@ export const FILTER_OPTIONS: FilterOption[] = [
 export function parseFilterInput(rawValue: string): ParsedInput {
   const filterRegex = /<filter>([^<]+)<\/filter>/g
   const filters: ParsedFilter[] = []
+  const folderScopes: ParsedFolderScope[] = []
+  const people: ParsedPersonFilter[] = []
+  const dates: ParsedDateFilter[] = []
+  const drives: ParsedDriveFilter[] = []
   let displayValue = rawValue
   let match
 
@@ -96,7 +254,41 @@ export function parseFilterInput(rawValue: string): ParsedInput {
     const filterDisplay = match[1]
     const filterOption = FILTER_OPTIONS.find(opt => opt.display === filterDisplay)
     
-    if (filterOption) {
+    if (filterDisplay.startsWith(FOLDER_SCOPE_PREFIX)) {
+      folderScopes.push({
+        folder: parseTokenValue(filterDisplay, FOLDER_SCOPE_PREFIX),
+        display: filterDisplay,
+        startPos: match.index,
+        endPos: match.index + match[0].length
+      })
+    } else if (filterDisplay.startsWith(DRIVE_PREFIX)) {
+      drives.push({
+        drive: parseTokenValue(filterDisplay, DRIVE_PREFIX),
+        display: filterDisplay,
+        startPos: match.index,
+        endPos: match.index + match[0].length
+      })
+    } else if (isDateToken(filterDisplay)) {
+      const range = parseDateToken(filterDisplay)
+      if (range) {
+        dates.push({
+          label: `@${filterDisplay}`,
+          range,
+          display: filterDisplay,
+          startPos: match.index,
+          endPos: match.index + match[0].length
+        })
+      }
+    } else if (filterDisplay.startsWith(OWNER_PREFIX) || filterDisplay.startsWith(MODIFIER_PREFIX)) {
+      const isOwner = filterDisplay.startsWith(OWNER_PREFIX)
+      people.push({
+        role: isOwner ? 'owner' : 'modifier',
+        person: parseTokenValue(filterDisplay, isOwner ? OWNER_PREFIX : MODIFIER_PREFIX),
+        display: filterDisplay,
+        startPos: match.index,
+        endPos: match.index + match[0].length
+      })
+    } else if (filterOption) {
       filters.push({
         key: filterOption.key,
         display: filterDisplay,
@@ -106,12 +298,29 @@ export function parseFilterInput(rawValue: string): ParsedInput {
     }
   }
 
+  // Natural-language dates stay plain text in the input but still become filters
+  while ((match = PLAIN_DATE_REGEX.exec(rawValue)) !== null) {
+    const dateText = match[2]
+    const range = parseDateToken(dateText)
+    if (range) {
+      const startPos = match.index + match[1].length
+      dates.push({
+        label: dateText,
+        range,
+        display: dateText,
+        startPos,
+        endPos: startPos + dateText.length
+      })
+    }
+  }
+
   // Convert to display format: <filter>docs</filter> -> @docs
   displayValue = rawValue.replace(/<filter>([^<]+)<\/filter>/g, '@$1')
 
-  // Extract clean query (remove all filter tags)
+  // Extract clean query (remove all filter tags and date phrases)
   const cleanQuery = rawValue
     .replace(/<filter>[^<]+<\/filter>/g, '')
+    .replace(PLAIN_DATE_REGEX, (phrase, leading: string, dateText: string) => parseDateToken(dateText) ? leading : phrase)
     .replace(/\s+/g, ' ')
     .trim()
 
@@ -119,10 +328,210 @@ export function parseFilterInput(rawValue: string): ParsedInput {
     rawValue,
     displayValue,
     filters,
-    cleanQuery
+    folderScopes,
+    people,
+    dates,
+    drives,
+    cleanQuery,
+    queryError: getQueryError(cleanQuery)
   }
 }
 
+/**
+ * Check the search words against the query grammar: "exact phrase", -exclude, a OR b, (...)
+ */
+function getQueryError(query: string): QueryError | undefined {
+  try {
+    parseQuery(query)
+    return undefined
+  } catch (error) {
+    if (!(error instanceof QuerySyntaxError)) throw error
+    return { message: error.message, position: error.position }
+  }
+}
+
+/**
+ * Convert display text back to raw input by turning complete @filter words into tags
+ * "hello @docs @in:Finance" -> "hello <filter>docs</filter> <filter>in:Finance</filter>"
+ * While typing, a prefix:value operator at the end may be unfinished ("@in:Fin"), so it
+ * only becomes a tag once a space follows it
+ */
+export function displayToRaw(displayValue: string, { typing = false }: { typing?: boolean } = {}): string {
+  return displayValue.replace(DISPLAY_TOKEN_REGEX, (token, filterDisplay: string, offset: number) => {
+    const isValueOperator = VALUE_PREFIXES.some(prefix => filterDisplay.startsWith(prefix))
+    if (typing && isValueOperator && offset + token.length === displayValue.length) return token
+
+    const isKnown = isDateToken(filterDisplay)
+      ? parseDateToken(filterDisplay) !== null
+      : isValueOperator ||
+        FILTER_OPTIONS.some(opt => opt.display === filterDisplay)
+    return isKnown ? `<filter>${filterDisplay}</filter>` : token
+  })
+}
+
+/**
+ * Build the filters shared by the search service, UI and CLI from parsed input
+ */
+export function toSearchFilters(parsedInput: ParsedInput): SearchFilters {
+  const searchFilters: SearchFilters = {}
+
+  if (parsedInput.filters.length > 0) {
+    searchFilters.fileTypes = parsedInput.filters.map(f => f.key)
+  }
+  if (parsedInput.folderScopes.length > 0) {
+    searchFilters.folderScope = parsedInput.folderScopes.map(scope => scope.folder)
+  }
+
+  const owners = parsedInput.people.filter(p => p.role === 'owner').map(p => p.person)
+  const modifiers = parsedInput.people.filter(p => p.role === 'modifier').map(p => p.person)
+  if (owners.length > 0) {
+    searchFilters.owners = owners
+  }
+  if (modifiers.length > 0) {
+    searchFilters.modifiedBy = modifiers
+  }
+
+  if (parsedInput.drives.length > 0) {
+    searchFilters.drives = parsedInput.drives.map(d => d.drive)
+  }
+
+  if (parsedInput.dates.length > 0) {
+    searchFilters.dateRange = intersectDateRanges(parsedInput.dates.map(d => d.range))
+  }
+
+  return searchFilters
+}
+
+/**
+ * Display form of a prefix:value operator, quoting values that contain spaces
+ * formatValueToken('in:', 'Q3 Planning') -> 'in:"Q3 Planning"'
+ */
+export function formatValueToken(prefix: string, value: string): string {
+  const cleanValue = value.replace(/["<]/g, '')
+  return /[\s@]/.test(cleanValue) ? `${prefix}"${cleanValue}"` : `${prefix}${cleanValue}`
+}
+
+function parseTokenValue(filterDisplay: string, prefix: string): string {
+  return filterDisplay.slice(prefix.length).replace(/^"|"$/g, '')
+}
+
+function isDateToken(filterDisplay: string): boolean {
+  return DATE_PREFIXES.some(prefix => filterDisplay.toLowerCase().startsWith(prefix)) ||
+    DATE_OPTIONS.some(opt => opt.display === filterDisplay)
+}
+
+/**
+ * Turn a date token into a modification-date range, or null if it isn't one
+ * "thisweek" -> since Monday, "before:2026-01-01" -> until that day, "after:3d" -> since 3 days ago,
+ * "modified:last month" -> the whole previous month
+ */
+export function parseDateToken(token: string, now: Date = new Date()): DateRange | null {
+  const lower = token.toLowerCase()
+  const prefix = DATE_PREFIXES.find(p => lower.startsWith(p))
+  const expression = parseTokenValue(lower, prefix || '').trim()
+
+  const period = parseDatePeriod(expression, now)
+  if (period) {
+    if (prefix === BEFORE_PREFIX) return { end: period.start }
+    if (prefix === AFTER_PREFIX) return { start: period.start }
+    return period
+  }
+
+  // Ages and absolute dates are only meaningful after a prefix
+  const point = prefix ? parseDatePoint(expression, now) : null
+  if (!point) return null
+
+  if (prefix === BEFORE_PREFIX) return { end: point.date }
+  if (prefix === AFTER_PREFIX || !point.isDay) return { start: point.date }
+  // modified:<date> means that calendar day
+  return { start: point.date, end: addDays(point.date, 1) }
+}
+
+/**
+ * Named periods: today, yesterday, this/last week, month or year (spaces optional)
+ * Weeks start on Monday
+ */
+function parseDatePeriod(expression: string, now: Date): DateRange | null {
+  const today = startOfDay(now)
+  const weekStart = addDays(today, -((today.getDay() + 6) % 7))
+  const monthStart = new Date(today.getFullYear(), today.getMonth(), 1)
+  const yearStart = new Date(today.getFullYear(), 0, 1)
+
+  switch (expression.replace(/\s+/g, '')) {
+    case 'today':
+      return { start: today }
+    case 'yesterday':
+      return { start: addDays(today, -1), end: today }
+    case 'thisweek':
+      return { start: weekStart }
+    case 'lastweek':
+      return { start: addDays(weekStart, -7), end: weekStart }
+    case 'thismonth':
+      return { start: monthStart }
+    case 'lastmonth':
+      return { start: new Date(today.getFullYear(), today.getMonth() - 1, 1), end: monthStart }
+    case 'thisyear':
+      return { start: yearStart }
+    case 'lastyear':
+      return { start: new Date(today.getFullYear() - 1, 0, 1), end: yearStart }
+    default:
+      return null
+  }
+}
+
+/**
+ * A single point in time: an absolute day (2026-01-01) or an age counted in whole days (3d, 2w, 6m, 1y)
+ */
+function parseDatePoint(expression: string, now: Date): { date: Date; isDay: boolean } | null {
+  const absolute = expression.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (absolute) {
+    const [year, month, day] = absolute.slice(1).map(Number)
+    const date = new Date(year, month - 1, day)
+    // Reject dates that rolled over, e.g. 2026-02-31
+    if (date.getMonth() !== month - 1 || date.getDate() !== day) return null
+    return { date, isDay: true }
+  }
+
+  const relative = expression.match(/^(\d+)\s*(d|days?|w|weeks?|m|months?|y|years?)(?:\s+ago)?$/)
+  if (relative) {
+    const amount = parseInt(relative[1], 10)
+    const today = startOfDay(now)
+    switch (relative[2][0]) {
+      case 'd':
+        return { date: addDays(today, -amount), isDay: false }
+      case 'w':
+        return { date: addDays(today, -amount * 7), isDay: false }
+      case 'm':
+        return { date: new Date(today.getFullYear(), today.getMonth() - amount, today.getDate()), isDay: false }
+      case 'y':
+        return { date: new Date(today.getFullYear() - amount, today.getMonth(), today.getDate()), isDay: false }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Combine several date filters into the range all of them allow
+ */
+function intersectDateRanges(ranges: DateRange[]): DateRange {
+  const starts = ranges.map(r => r.start).filter((d): d is Date => d !== undefined)
+  const ends = ranges.map(r => r.end).filter((d): d is Date => d !== undefined)
+
+  return {
+    start: starts.length > 0 ? new Date(Math.max(...starts.map(d => d.getTime()))) : undefined,
+    end: ends.length > 0 ? new Date(Math.min(...ends.map(d => d.getTime()))) : undefined
+  }
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
 /**
  * Insert a filter at a specific position in the raw input
  */
@@ -144,7 +553,9 @@ export function insertFilter(
  */
 export function removeFilter(rawValue: string, filterDisplay: string): string {
   const filterTag = `<filter>${filterDisplay}</filter>`
-  return rawValue.replace(filterTag, '').replace(/\s+/g, ' ').trim()
+  // Natural-language dates are plain text rather than tags
+  const target = rawValue.includes(filterTag) ? filterTag : filterDisplay
+  return rawValue.replace(target, '').replace(/\s+/g, ' ').trim()
 }
 
 /**
@@ -260,12 +671,99 @@ export function shouldShowPopup(displayValue: string, cursorPos: number): boolea
   return false
 }
 
+/**
+ * Which index values the popup needs for the current partial input, if any,
+ * so they can be looked up (asynchronously) before getMatchingFilters runs
+ */
+export function getSuggestionRequest(
+  partialInput: string
+): { kind: keyof FilterSuggestions; prefix: string } | null {
+  const searchTerm = partialInput.toLowerCase()
+  const valuePrefixes: Array<[string, keyof FilterSuggestions]> = [
+    [FOLDER_SCOPE_PREFIX, 'folders'],
+    [OWNER_PREFIX, 'people'],
+    [MODIFIER_PREFIX, 'people'],
+    [DRIVE_PREFIX, 'drives']
+  ]
+
+  const match = valuePrefixes.find(([prefix]) => searchTerm.startsWith(prefix))
+  if (!match) return null
+  return { kind: match[1], prefix: partialInput.slice(match[0].length).replace(/^"/, '') }
+}
+
 /**
  * Get filter options that match the current partial input
  */
-export function getMatchingFilters(partialInput: string): FilterOption[] {
+export function getMatchingFilters(
+  partialInput: string,
+  suggestions: FilterSuggestions = {}
+): FilterOption[] {
   const searchTerm = partialInput.toLowerCase()
-  return FILTER_OPTIONS.filter(option => 
+
+  // After "@in:" suggest folders from the index instead of filter types
+  if (searchTerm.startsWith(FOLDER_SCOPE_PREFIX)) {
+    const folderPrefix = partialInput.slice(FOLDER_SCOPE_PREFIX.length).replace(/^"/, '')
+    return (suggestions.folders?.(folderPrefix) || []).map(folder => ({
+      key: formatValueToken(FOLDER_SCOPE_PREFIX, folder.name),
+      display: formatValueToken(FOLDER_SCOPE_PREFIX, folder.name),
+      label: folder.name,
+      description: folder.path || 'Top-level folder',
+      icon: '📁'
+    }))
+  }
+
+  // After "@owner:" or "@by:" suggest people seen in the index
+  const personPrefix = [OWNER_PREFIX, MODIFIER_PREFIX].find(prefix => searchTerm.startsWith(prefix))
+  if (personPrefix) {
+    const namePrefix = partialInput.slice(personPrefix.length).replace(/^"/, '')
+    return (suggestions.people?.(namePrefix) || []).map(person => ({
+      key: formatValueToken(personPrefix, person.displayName),
+      display: formatValueToken(personPrefix, person.displayName),
+      label: person.displayName,
+      description: person.emailAddress,
+      icon: personPrefix === OWNER_PREFIX ? '👤' : '✏️'
+    }))
+  }
+
+  // After "@drive:" suggest My Drive and shared drives seen in the index
+  if (searchTerm.startsWith(DRIVE_PREFIX)) {
+    const drivePrefix = partialInput.slice(DRIVE_PREFIX.length).replace(/^"/, '')
+    return (suggestions.drives?.(drivePrefix) || []).map(driveName => ({
+      key: formatValueToken(DRIVE_PREFIX, driveName),
+      display: formatValueToken(DRIVE_PREFIX, driveName),
+      label: driveName,
+      description: driveName === MY_DRIVE_NAME ? 'Your own files' : 'Shared drive',
+      icon: '🗂️'
+    }))
+  }
+
+  // After "@before:" or "@after:" suggest common ages, plus the typed value when it parses
+  const datePrefix = [BEFORE_PREFIX, AFTER_PREFIX].find(prefix => searchTerm.startsWith(prefix))
+  if (datePrefix) {
+    const typedValue = searchTerm.slice(datePrefix.length)
+    const options = DATE_VALUE_SUGGESTIONS
+      .filter(suggestion => suggestion.value.startsWith(typedValue))
+      .map(suggestion => ({
+        key: `${datePrefix}${suggestion.value}`,
+        display: `${datePrefix}${suggestion.value}`,
+        label: `${datePrefix}${suggestion.value}`,
+        description: `Modified ${datePrefix === BEFORE_PREFIX ? 'before' : 'after'} ${suggestion.description.toLowerCase()}`,
+        icon: '📅'
+      }))
+    const typedIsSuggested = options.some(option => option.key === searchTerm)
+    if (typedValue && !typedIsSuggested && parseDateToken(searchTerm)) {
+      options.unshift({
+        key: searchTerm,
+        display: searchTerm,
+        label: searchTerm,
+        description: datePrefix === BEFORE_PREFIX ? 'Modified before this' : 'Modified after this',
+        icon: '📅'
+      })
+    }
+    return options
+  }
+
+  return [...FILTER_OPTIONS, ...DATE_OPTIONS, ...VALUE_FILTER_OPTIONS].filter(option => 
     option.display.toLowerCase().includes(searchTerm) ||
     option.label.toLowerCase().includes(searchTerm)
   )
@@ -0,0 +1,353 @@
+// Node.js-only source that indexes files from local directories
+import { promises as fs } from 'fs'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import { searchClient } from './searchClient'
+import type {
+  DriveFile,
+  FileTypeFilter,
+  SearchResult,
+  SourceChange,
+  SourceChangesPage,
+  SourceProvider,
+  SourceSpace
+} from '~types'
+
+export interface LocalFilesConfig {
+  roots: string[] // Directories to index; each one becomes a space
+  exclude?: string[] // .gitignore-style patterns, relative to each root
+}
+
+interface IgnoreRule {
+  baseDir: string // Directory the pattern is relative to
+  regex: RegExp
+  negate: boolean
+  directoryOnly: boolean
+}
+
+interface LocalEntry {
+  file: DriveFile
+  modifiedMs: number
+}
+
+const DIRECTORY_MIME_TYPE = 'inode/directory'
+const TEXT_MIME_TYPES = ['text/plain', 'text/markdown', 'text/csv', 'text/tab-separated-values']
+const MAX_CONTENT_BYTES = 64 * 1024 // Only the start of a file's text is indexed
+const DEFAULT_EXCLUDES = ['.git/', 'node_modules/', '.DS_Store']
+
+const EXTENSION_FILE_TYPES: Record<Exclude<FileTypeFilter, 'folders'>, string[]> = {
+  documents: ['doc', 'docx', 'odt', 'rtf', 'txt', 'md', 'markdown', 'pages'],
+  spreadsheets: ['xls', 'xlsx', 'ods', 'csv', 'tsv', 'numbers'],
+  presentations: ['ppt', 'pptx', 'odp', 'key'],
+  pdfs: ['pdf'],
+  images: ['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'bmp', 'heic', 'tiff'],
+  videos: ['mp4', 'mov', 'avi', 'mkv', 'webm', 'm4v'],
+  audio: ['mp3', 'wav', 'flac', 'm4a', 'ogg', 'aac']
+}
+
+// MIME types the result list knows how to label and give an icon
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  odt: 'application/vnd.oasis.opendocument.text',
+  rtf: 'application/rtf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  odp: 'application/vnd.oasis.opendocument.presentation',
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  json: 'application/json',
+  html: 'text/html'
+}
+
+/**
+ * Local directories as a source, so the whole pipeline can run offline
+ * File IDs are absolute paths and change tokens are the time of the last scan
+ */
+export class LocalFilesProvider implements SourceProvider {
+  id = 'local'
+  name = 'Local Files'
+  icon = '💻'
+
+  private roots: string[]
+  private excludeRules: IgnoreRule[]
+
+  constructor(config: LocalFilesConfig) {
+    this.roots = config.roots.map(root => path.resolve(root))
+    this.excludeRules = [...DEFAULT_EXCLUDES, ...(config.exclude || [])]
+      .flatMap(pattern => this.roots.map(root => parseIgnorePattern(pattern, root)))
+      .filter((rule): rule is IgnoreRule => rule !== null)
+  }
+
+  isAuthenticated(): boolean {
+    return this.roots.length > 0
+  }
+
+  async listSpaces(): Promise<SourceSpace[]> {
+    return this.roots.map(root => ({ id: root, name: path.basename(root) || root }))
+  }
+
+  /**
+   * Local roots are small enough to list in one page
+   */
+  async listFiles(_pageToken?: string, spaceId?: string): Promise<SearchResult> {
+    const entries = await this.scan(spaceId)
+    return { files: entries.map(entry => entry.file) }
+  }
+
+  async getStartPageToken(_spaceId?: string): Promise<string> {
+    return String(Date.now())
+  }
+
+  /**
+   * Rescan the root and report files modified since the token or missing from the index,
+   * plus indexed files that no longer exist
+   */
+  async getChanges(pageToken: string, spaceId?: string): Promise<SourceChangesPage> {
+    const since = Number(pageToken) || 0
+    const newStartPageToken = String(Date.now())
+    const entries = await this.scan(spaceId)
+
+    const root = this.getRoot(spaceId)
+    const indexedIds = new Set(
+      (await searchClient.getFilesBySource(this.id))
+        .map(file => file.id)
+        .filter(id => isInside(id, root))
+    )
+
+    const changes: SourceChange[] = []
+    for (const entry of entries) {
+      if (entry.modifiedMs > since || !indexedIds.has(entry.file.id)) {
+        changes.push({ fileId: entry.file.id, removed: false, file: entry.file })
+      }
+      indexedIds.delete(entry.file.id)
+    }
+    for (const fileId of indexedIds) {
+      changes.push({ fileId, removed: true })
+    }
+
+    return { changes, newStartPageToken }
+  }
+
+  getOpenUrl(file: DriveFile): string {
+    return pathToFileURL(file.id).href
+  }
+
+  getFileType(file: DriveFile): FileTypeFilter | undefined {
+    if (file.mimeType === DIRECTORY_MIME_TYPE) return 'folders'
+    const extension = getExtension(file.name)
+    const match = Object.entries(EXTENSION_FILE_TYPES)
+      .find(([, extensions]) => extensions.includes(extension))
+    return match?.[0] as FileTypeFilter | undefined
+  }
+
+  /**
+   * Start of a plain-text, markdown or CSV file; null for every other type
+   */
+  async getFileContent(file: DriveFile): Promise<string | null> {
+    if (!TEXT_MIME_TYPES.includes(file.mimeType)) return null
+
+    const handle = await fs.open(file.id, 'r')
+    try {
+      const buffer = Buffer.alloc(MAX_CONTENT_BYTES)
+      const { bytesRead } = await handle.read(buffer, 0, MAX_CONTENT_BYTES, 0)
+      return buffer.subarray(0, bytesRead).toString('utf8')
+    } finally {
+      await handle.close()
+    }
+  }
+
+  private getRoot(spaceId?: string): string {
+    return spaceId ? path.resolve(spaceId) : this.roots[0]
+  }
+
+  /**
+   * Walk a root depth-first, honouring the configured excludes and any .gitignore on the way
+   * The root itself isn't listed, so paths start below it like My Drive
+   */
+  private async scan(spaceId?: string): Promise<LocalEntry[]> {
+    const root = this.getRoot(spaceId)
+    const entries: LocalEntry[] = []
+    const rootRules = this.excludeRules.filter(rule => rule.baseDir === root)
+    await this.walk(root, rootRules, entries)
+    return entries
+  }
+
+  private async walk(
+    directory: string,
+    inheritedRules: IgnoreRule[],
+    entries: LocalEntry[]
+  ): Promise<void> {
+    const rules = [...inheritedRules, ...await readGitignore(directory)]
+
+    let dirents
+    try {
+      dirents = await fs.readdir(directory, { withFileTypes: true })
+    } catch (error) {
+      console.error(`❌ Failed to read ${directory}:`, error)
+      return
+    }
+
+    for (const dirent of dirents) {
+      const fullPath = path.join(directory, dirent.name)
+      const isDirectory = dirent.isDirectory()
+      if (!isDirectory && !dirent.isFile()) continue // Skip symlinks, sockets, ...
+      if (isIgnored(fullPath, isDirectory, rules)) continue
+
+      let stats
+      try {
+        stats = await fs.stat(fullPath)
+      } catch {
+        continue // Removed while scanning
+      }
+
+      entries.push({
+        modifiedMs: stats.mtimeMs,
+        file: {
+          id: fullPath,
+          name: dirent.name,
+          mimeType: isDirectory ? DIRECTORY_MIME_TYPE : getMimeType(dirent.name),
+          parents: [directory],
+          webViewLink: pathToFileURL(fullPath).href,
+          modifiedTime: stats.mtime.toISOString(),
+          size: isDirectory ? undefined : String(stats.size)
+        }
+      })
+
+      if (isDirectory) {
+        await this.walk(fullPath, rules, entries)
+      }
+    }
+  }
+}
+
+/**
+ * Compile one .gitignore line into a rule
+ * Supports comments, negation (!), directory-only (trailing /), anchoring and * ? ** globs
+ */
+function parseIgnorePattern(line: string, baseDir: string): IgnoreRule | null {
+  let pattern = line.trim()
+  if (!pattern || pattern.startsWith('#')) return null
+
+  const negate = pattern.startsWith('!')
+  if (negate) pattern = pattern.slice(1)
+
+  const directoryOnly = pattern.endsWith('/')
+  pattern = pattern.replace(/\/+$/, '')
+
+  // A slash anywhere but the end anchors the pattern to its base directory
+  const anchored = pattern.includes('/')
+  pattern = pattern.replace(/^\//, '')
+  if (!pattern) return null
+
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?'
+        i += 2
+      } else {
+        source += '.*'
+        i += 1
+      }
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1)
+      if (end === -1) {
+        source += '\\['
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^')}]`
+        i = end
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&')
+    }
+  }
+
+  return {
+    baseDir,
+    regex: new RegExp(anchored ? `^${source}$` : `(?:^|/)${source}$`),
+    negate,
+    directoryOnly
+  }
+}
+
+async function readGitignore(directory: string): Promise<IgnoreRule[]> {
+  try {
+    const contents = await fs.readFile(path.join(directory, '.gitignore'), 'utf8')
+    return contents.split(/\r?\n/)
+      .map(line => parseIgnorePattern(line, directory))
+      .filter((rule): rule is IgnoreRule => rule !== null)
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Like git, the last matching rule wins, so later negations can re-include a file
+ */
+function isIgnored(fullPath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue
+    const relativePath = path.relative(rule.baseDir, fullPath).split(path.sep).join('/')
+    if (rule.regex.test(relativePath)) {
+      ignored = !rule.negate
+    }
+  }
+  return ignored
+}
+
+function isInside(filePath: string, root: string): boolean {
+  const relativePath = path.relative(root, filePath)
+  return !!relativePath && !relativePath.startsWith('..') && !path.isAbsolute(relativePath)
+}
+
+function getExtension(name: string): string {
+  return path.extname(name).slice(1).toLowerCase()
+}
+
+function getMimeType(name: string): string {
+  return EXTENSION_MIME_TYPES[getExtension(name)] || 'application/octet-stream'
+}
+
+/**
+ * Build the provider from LOCAL_SOURCE_ROOTS / LOCAL_SOURCE_EXCLUDE (comma-separated)
+ * and any --local=<dir> command-line arguments; returns null when no roots are configured
+ */
+export function createLocalFilesProvider(args: string[] = []): LocalFilesProvider | null {
+  const splitList = (value?: string) => (value || '').split(',').map(item => item.trim()).filter(Boolean)
+
+  const roots = [
+    ...splitList(process.env.LOCAL_SOURCE_ROOTS),
+    ...args.filter(arg => arg.startsWith('--local=')).map(arg => arg.slice('--local='.length))
+  ]
+  if (roots.length === 0) return null
+
+  return new LocalFilesProvider({
+    roots,
+    exclude: splitList(process.env.LOCAL_SOURCE_EXCLUDE)
+  })
+}
@@ -0,0 +1,106 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { PersistentSearchService } from './persistentSearch'
+
+// createStorage() loads NodeStorage with require(), which can't load TypeScript here
+vi.mock('./storage', async importOriginal => {
+  const { NodeStorage } = await import('./storage-node')
+  return { ...await importOriginal<typeof import('./storage')>(), createStorage: () => new NodeStorage() }
+})
+
+const file = (id: string, name: string) => ({ id, name, mimeType: 'application/vnd.google-apps.document' })
+
+describe('PersistentSearchService after a failed load', () => {
+  let dir: string
+  let indexDir: string
+
+  beforeEach(async () => {
+    // NodeStorage saves under <cwd>/data/indexes
+    dir = await mkdtemp(path.join(tmpdir(), 'persistent-search-'))
+    indexDir = path.join(dir, 'data', 'indexes')
+    vi.spyOn(process, 'cwd').mockReturnValue(dir)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  async function saveIndex(): Promise<void> {
+    const service = new PersistentSearchService('p')
+    await service.initialize()
+    await service.addFiles([file('1', 'Budget')])
+    await service.flush()
+  }
+
+  async function corruptSavedIndex(): Promise<void> {
+    for (const name of await readdir(indexDir)) {
+      if (/^p-search\.\d+\.json$/.test(name)) await writeFile(path.join(indexDir, name), '{"truncated')
+    }
+  }
+
+  const readManifest = () => readFile(path.join(indexDir, 'p-manifest.json'), 'utf8')
+
+  async function loadService(): Promise<PersistentSearchService> {
+    const service = new PersistentSearchService('p')
+    await service.initialize()
+    return service
+  }
+
+  it('comes up read-only and leaves the saved index alone', async () => {
+    await saveIndex()
+    await corruptSavedIndex()
+    const manifest = await readManifest()
+
+    const service = await loadService()
+    await service.addFiles([file('2', 'Roadmap')])
+    await service.flush()
+
+    expect(service.getStats()).toMatchObject({ readOnly: true, unsavedChanges: 1 })
+    expect(await readManifest()).toBe(manifest)
+  })
+
+  it('keeps the previous change token while read-only', async () => {
+    await saveIndex()
+    await corruptSavedIndex()
+
+    const service = await loadService()
+    await service.saveChangeToken('tok-123')
+
+    expect(await service.getChangeToken()).toBeNull()
+  })
+
+  it('saves a rebuild over the index that failed to load, then the change token', async () => {
+    await saveIndex()
+    await corruptSavedIndex()
+
+    const service = await loadService()
+    await service.replaceIndex([file('1', 'Budget'), file('2', 'Roadmap')])
+    await service.saveChangeToken('tok-123')
+
+    expect(service.getStats()).toMatchObject({ readOnly: false, unsavedChanges: 0 })
+    const reloaded = await loadService()
+    expect(reloaded.getStats().readOnly).toBe(false)
+    expect(reloaded.search('roadmap').map(result => result.id)).toEqual(['2'])
+    expect(await reloaded.getChangeToken()).toBe('tok-123')
+  })
+
+  it('stays read-only after a rebuild when a newer version saved the index', async () => {
+    await saveIndex()
+    const manifest = JSON.stringify({ ...JSON.parse(await readManifest()), schemaVersion: 999 })
+    await writeFile(path.join(indexDir, 'p-manifest.json'), manifest)
+
+    const service = await loadService()
+    await service.replaceIndex([file('1', 'Budget')])
+    await service.saveChangeToken('tok-123')
+
+    expect(service.getStats()).toMatchObject({ readOnly: true, unsavedChanges: 1 })
+    expect(await readManifest()).toBe(manifest)
+    expect(await service.getChangeToken()).toBeNull()
+  })
+})
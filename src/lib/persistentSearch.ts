@@ -1,34 +1,200 @@
-import MiniSearch from 'minisearch'
-import type { DriveFile } from '~types'
-import { createStorage, joinPath, getCurrentDirectory, type StorageInterface } from './storage'
+import MiniSearch, { type Options, type Query, type SearchResult } from 'minisearch'
+import type { DriveFile, FileTypeFilter, MatchField, ScoreBoost, SearchMatch } from '~types'
+import {
+  createStorage,
+  joinPath,
+  getCurrentDirectory,
+  isNodeEnvironment,
+  FILES_STORE,
+  INDEX_CHUNKS_STORE,
+  LEGACY_FILES_STORE,
+  LEGACY_INDEX_CHUNKS_STORE,
+  PREVIOUS_FILES_STORE,
+  type RecordStoreName,
+  type RecordWrite,
+  type StorageInterface,
+  type StorageUsage
+} from './storage'
+import { UsageStore, type FileUsage } from './usageStore'
+import { RankingConfigStore, DEFAULT_RANKING_CONFIG, type RankingConfig } from './ranking'
+import { MY_DRIVE_NAME, MAX_CONTENT_LENGTH } from './searchConstants'
+import { textPipeline, toTerms, normalizeWithOffsets, splitWords, isBigramScript } from './textPipeline'
+import { parseQuery, parsePlainQuery, getPositiveText, QuerySyntaxError, type QueryNode } from './queryParser'
 
 interface SearchableFile {
   id: string
   name: string
+  initials: string // Acronyms of the name, e.g. "qbr" for "Quarterly Business Review"
   pathTokens: string
   typeKeywords: string
+  content: string
   mimeType: string
   modifiedTime?: string
+  source?: string // Source provider ID; missing for Google Drive files indexed before providers existed
 }
 
 interface FileMetadata extends DriveFile {
+  // Usage saved on index entries before the usage store existed; only read to import it
   openCount?: number
   lastOpenedTime?: string
+  ancestorIds?: string[] // Parent folder IDs, nearest first (last may be unresolved, e.g. My Drive root)
+  content?: string // Start of the file's text when content indexing is on; '' when it has none
+  contentModifiedTime?: string // modifiedTime of the version the content was taken from
+  sources?: string[] // Every source that has the file, the one in `source` last; missing when only one does
+}
+
+// A file's text as fetched by the content indexer
+export interface FileContent {
+  fileId: string
+  content: string
+  modifiedTime?: string // Version of the file the text belongs to
+}
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder'
+const PATH_SEPARATOR = ' / '
+
+// Search keywords for each file category
+const TYPE_KEYWORDS: Record<FileTypeFilter, string[]> = {
+  documents: ['doc', 'document', 'text', 'word'],
+  spreadsheets: ['sheet', 'excel', 'csv', 'table'],
+  presentations: ['slide', 'powerpoint', 'ppt', 'presentation'],
+  pdfs: ['pdf', 'document'],
+  folders: ['folder', 'directory'],
+  images: ['image', 'photo', 'picture'],
+  videos: ['video', 'movie'],
+  audio: ['audio', 'music', 'sound']
+}
+
+// MiniSearch configuration, shared by a fresh index and a rebuilt one
+const SEARCH_INDEX_OPTIONS: Options<SearchableFile> = {
+  fields: ['name', 'initials', 'pathTokens', 'typeKeywords', 'content'], // fields to search
+  storeFields: ['id', 'name', 'mimeType', 'modifiedTime', 'source'], // fields to return
+  idField: 'id',
+  // Accent-folded words and CJK bigrams; queries go through the same pipeline
+  tokenize: textPipeline.tokenize,
+  processTerm: textPipeline.processTerm,
+  searchOptions: {
+    boost: getFieldBoosts(DEFAULT_RANKING_CONFIG), // Searches pass the configured weights
+    fuzzy: 0.2,      // Allow small typos
+    prefix: true,    // Enable prefix search (typing "doc" matches "document")
+    combineWith: 'AND'
+  }
+}
+
+// What each searchable field is called on search results
+const MATCH_FIELDS: Record<string, MatchField> = {
+  name: 'name',
+  initials: 'initials',
+  pathTokens: 'path',
+  typeKeywords: 'type',
+  content: 'content'
+}
+
+// Empty-query view: opens lose half their weight every week; repeat opens add a log bonus
+const RECENT_OPEN_HALF_LIFE_DAYS = 7
+const FREQUENT_OPEN_WEIGHT = 0.25
+
+// Acronyms kept whole in a name's initials ("FY26 Budget" -> "fy26b"); longer capitalized words are shouted words
+const MAX_ACRONYM_LENGTH = 4
+
+// Content indexing: the length of the snippet shown for a match
+const SNIPPET_LENGTH = 160
+
+// Write-behind saving: changes are coalesced and the whole index is written once things go quiet
+const SAVE_IDLE_DELAY_MS = 2000 // Save once no change has come in for this long
+const SAVE_MAX_DELAY_MS = 30 * 1000 // ...but never hold unsaved changes for longer than this
+
+// Record storage keeps the serialized search index in pieces of about this many characters.
+// Where a piece ends depends on the text around it, so a change only alters the pieces it falls in
+// and a save writes just those.
+const INDEX_CHUNK_SIZE = 16 * 1024
+
+// Bump when SearchableFile or the saved metadata changes shape, and add a migration below.
+// Version 1 is the unversioned layout saved before manifests existed.
+const SCHEMA_VERSION = 6
+
+// Upgrades of saved metadata to the next schema version. The MiniSearch index is rebuilt
+// from the migrated metadata, so a change to SearchableFile alone needs no migration code.
+const MIGRATIONS: Record<number, (files: FileMetadata[]) => FileMetadata[]> = {
+  // 1 -> 2: unversioned indexes can predate folder paths; rebuilding resolves them
+  1: files => files,
+  // 2 -> 3: the content field is new to the search index, which the rebuild adds
+  2: files => files,
+  // 3 -> 4: terms are now accent-folded and CJK text split into bigrams; the rebuild re-tokenizes
+  3: files => files,
+  // 4 -> 5: the initials field is new to the search index, which the rebuild adds
+  4: files => files,
+  // 5 -> 6: Kana runs with a long vowel mark (データ) are now bigrams too; the rebuild re-tokenizes
+  5: files => files
+}
+
+// One saved generation of the index and metadata
+interface IndexSnapshot {
+  generation: number
+  indexKey: string // Record layout: the object store names instead of keys
+  metadataKey: string
+  documentCount: number
+  checksum: string
+  chunkKeys?: string[] // Record layout: keys of the search index chunks, in order
+  chunkCount?: number // Record layout in version 2 stores: number of search index chunks
+  changesKey?: string // Record layout, previous generation: store of the file records that differ from the current ones
+}
+
+// Points at the current snapshot; writing it is what makes a save take effect
+interface IndexManifest {
+  schemaVersion: number
+  savedAt: string
+  // 'records': one record per file plus index chunks, saved in a single transaction.
+  // Otherwise each generation is a pair of keys, swapped in by writing the manifest.
+  layout?: 'records'
+  current: IndexSnapshot
+  previous?: IndexSnapshot // Kept as a fallback until the next save
+}
+
+interface IndexChunk {
+  key: string // Hash and length of the data, so unchanged pieces keep their key
+  data: string
+}
+
+// Chunk of a version 2 store, keyed by its position
+interface LegacyIndexChunk {
+  index: number
+  data: string
+}
+
+// A file as the previous generation had it; without a file, the previous generation didn't have it
+interface PreviousFileRecord {
+  id: string
+  file?: FileMetadata
+}
+
+// Files changed since the last save, so record storage only rewrites those
+interface PendingRecords {
+  changedIds: Set<string>
+  removedIds: Set<string>
+  rewriteAll: boolean // Everything changed, e.g. after a full re-index
 }
 
 // Filter types for search
-export type FileTypeFilter = 
-  | 'documents' 
-  | 'spreadsheets' 
-  | 'presentations' 
-  | 'pdfs' 
-  | 'folders' 
-  | 'images' 
-  | 'videos' 
-  | 'audio'
+export type { FileTypeFilter }
+
+// What the popup shows before anything is typed
+export interface RecentFiles {
+  recentlyOpened: FileMetadata[] // Opened from search, ranked by how recently and how often
+  recentlyModified: FileMetadata[] // Latest edits by other people, newest first
+}
+
+export interface SearchOptions {
+  explain?: boolean // Attach a score breakdown to every result
+  ranking?: Partial<RankingConfig> // Weights to use instead of the saved ones, for this search only
+}
 
 export interface SearchFilters {
   fileTypes?: FileTypeFilter[]
+  folderScope?: string[] // Folder names (case-insensitive); results must be inside one of them
+  owners?: string[] // Names or emails (partial, case-insensitive) of any owner
+  modifiedBy?: string[] // Names or emails (partial, case-insensitive) of the last modifier
+  drives?: string[] // Shared drive names (case-insensitive); "My Drive" matches files outside shared drives
   dateRange?: {
     start?: Date
     end?: Date
@@ -36,16 +202,33 @@ export interface SearchFilters {
 }
 
 export class PersistentSearchService {
+  private userId: string
   private miniSearch: MiniSearch<SearchableFile>
   private fileMap: Map<string, FileMetadata> = new Map()
   private storage: StorageInterface
+  private usage: UsageStore
+  private ranking: RankingConfigStore
   private indexKey: string
   private metadataKey: string
+  private manifestKey: string
   private changeTokenKey: string
   private isReady: boolean = false
+  private manifest: IndexManifest | null = null
+  private saveQueue: Promise<void> = Promise.resolve()
+  private readOnly: boolean = false // Saved data that failed to load or is from a newer version; never overwrite it
+  private savedByNewerVersion: boolean = false // Only a newer version may write over it, even after a rebuild
+  private recordsMatchManifest: boolean = false // The user's record stores hold the manifest's current generation
+  private unsavedChanges: number = 0 // Mutations not yet handed to a save
+  private firstUnsavedAt: number | null = null
+  private saveTimer: ReturnType<typeof setTimeout> | null = null
+  private lastSavedAt: string | null = null
+  private pendingRecords: PendingRecords = { changedIds: new Set(), removedIds: new Set(), rewriteAll: true }
 
   constructor(userId: string = 'default') {
+    this.userId = userId
     this.storage = createStorage()
+    this.usage = new UsageStore(userId)
+    this.ranking = new RankingConfigStore(userId)
     
     // For Node.js: use full file paths, for browser: use simple keys
     if (typeof process !== 'undefined' && process.versions?.node) {
@@ -53,31 +236,21 @@ export class PersistentSearchService {
       const indexDir = joinPath(getCurrentDirectory(), 'data', 'indexes')
       this.indexKey = joinPath(indexDir, `${userId}-search.json`)
       this.metadataKey = joinPath(indexDir, `${userId}-metadata.json`)
+      this.manifestKey = joinPath(indexDir, `${userId}-manifest.json`)
       this.changeTokenKey = joinPath(indexDir, `${userId}-change-token.txt`)
     } else {
       // Browser environment - use simple keys
       this.indexKey = `${userId}-search.json`
       this.metadataKey = `${userId}-metadata.json`
+      this.manifestKey = `${userId}-manifest.json`
       this.changeTokenKey = `${userId}-change-token`
     }
+
+    this.registerUnloadFlush()
     
     
     // Initialize MiniSearch with configuration
-    this.miniSearch = new MiniSearch({
-      fields: ['name', 'pathTokens', 'typeKeywords'], // fields to search
-      storeFields: ['id', 'name', 'mimeType', 'modifiedTime'], // fields to return
-      idField: 'id',
-      searchOptions: {
-        boost: {
-          name: 3,        // Boost filename matches most
-          pathTokens: 1,  // Path components 
-          typeKeywords: 2 // File type keywords
-        },
-        fuzzy: 0.2,      // Allow small typos
-        prefix: true,    // Enable prefix search (typing "doc" matches "document")
-        combineWith: 'AND'
-      }
-    })
+    this.miniSearch = new MiniSearch(SEARCH_INDEX_OPTIONS)
   }
 
   /**
@@ -95,108 +268,464 @@ export class PersistentSearchService {
         await this.storage.ensureDirectory(indexPath)
       }
       
-      // Try to load existing index and metadata
+      if (await this.loadFromStorage()) {
+        const loadTime = performance.now() - start
+        console.log(`✅ Loaded search index with ${this.miniSearch.documentCount} files in ${Math.round(loadTime)}ms`)
+      } else {
+        console.log('📁 No existing index found, starting fresh')
+      }
+    } catch (error) {
+      // Nothing is saved over what failed to load, so a fixed version can still load it
+      this.readOnly = true
+      console.error('❌ Failed to load search index; changes will not be saved:', error)
+      // Continue with empty index
+    }
+
+    await this.loadUsage()
+    await this.ranking.load()
+    this.isReady = true
+  }
+
+  /**
+   * Load the usage store, importing counts kept on index entries before it existed
+   */
+  private async loadUsage(): Promise<void> {
+    if (await this.usage.load()) return
+
+    const legacyUsage = [...this.fileMap.values()]
+      .filter(file => file.openCount && file.lastOpenedTime)
+      .map((file): [string, FileUsage] => [file.id, { openCount: file.openCount!, lastOpenedTime: file.lastOpenedTime! }])
+    await this.usage.import(legacyUsage)
+  }
+
+  /**
+   * Load the snapshot the manifest points at, falling back to the previous one,
+   * or the unversioned files saved before manifests existed
+   * Returns false when there is nothing saved yet
+   */
+  private async loadFromStorage(): Promise<boolean> {
+    const manifest = await this.readManifest()
+
+    if (!manifest) {
+      // Unversioned layout: migrate it and save it with a manifest
       const [indexExists, metadataExists] = await Promise.all([
         this.storage.exists(this.indexKey),
         this.storage.exists(this.metadataKey)
       ])
-      
-      if (indexExists && metadataExists) {
-        try {
-          await this.loadFromStorage()
-          const loadTime = performance.now() - start
-          console.log(`✅ Loaded search index with ${this.miniSearch.documentCount} files in ${Math.round(loadTime)}ms`)
-        } catch (error) {
-          console.warn('⚠️ Failed to load existing index, clearing corrupted data:', error)
-          // Clear corrupted data and start fresh
-          if (this.storage.clear) {
-            await this.storage.clear()
-          }
-          console.log('🗑️ Cleared corrupted storage, starting fresh')
+      if (!indexExists || !metadataExists) return false
+
+      console.log('📦 Migrating unversioned search index...')
+      await this.loadSnapshot({ indexKey: this.indexKey, metadataKey: this.metadataKey }, 1)
+      await this.saveToStorage()
+      // Only drop the old files once the migrated copy is safely saved
+      if (this.manifest) {
+        await Promise.all([this.storage.delete(this.indexKey), this.storage.delete(this.metadataKey)])
+      }
+      return true
+    }
+
+    if (manifest.schemaVersion > SCHEMA_VERSION) {
+      // Written by a newer version - leave it alone rather than overwrite it with an empty index
+      this.readOnly = true
+      this.savedByNewerVersion = true
+      throw new Error(`Search index schema ${manifest.schemaVersion} is newer than supported (${SCHEMA_VERSION})`)
+    }
+
+    const snapshots = [manifest.current, manifest.previous].filter((snapshot): snapshot is IndexSnapshot => !!snapshot)
+    for (const snapshot of snapshots) {
+      try {
+        const migrated = await this.loadSnapshot(snapshot, manifest.schemaVersion, manifest.layout)
+        // After falling back, the generation that failed to load is the one the next save drops
+        this.manifest = snapshot === manifest.current ? manifest : { ...manifest, current: snapshot, previous: manifest.current }
+        this.recordsMatchManifest = manifest.layout === 'records' && snapshot === manifest.current &&
+          snapshot.metadataKey === FILES_STORE && !migrated
+        // Records only need rewriting if the user's stores don't already hold them one per file
+        this.pendingRecords.rewriteAll = !this.recordsMatchManifest
+        if (migrated) {
+          await this.saveToStorage()
         }
-      } else {
-        console.log('📁 No existing index found, starting fresh')
+        return true
+      } catch (error) {
+        console.warn(`⚠️ Failed to load search index generation ${snapshot.generation}:`, error)
       }
-      
-      this.isReady = true
-    } catch (error) {
-      console.error('❌ Failed to load search index:', error)
-      // Continue with empty index
-      this.isReady = true
     }
+
+    // A rebuild saves past these generations rather than over them
+    this.manifest = manifest
+    throw new Error('No saved search index generation could be loaded')
   }
 
   /**
-   * Load index and metadata from storage
+   * Read, verify and (if needed) migrate one snapshot, then swap it in
+   * Returns whether the snapshot was migrated and should be saved again
    */
-  private async loadFromStorage(): Promise<void> {
+  private async loadSnapshot(
+    snapshot: Pick<IndexSnapshot, 'indexKey' | 'metadataKey'> & Partial<IndexSnapshot>,
+    schemaVersion: number,
+    layout?: IndexManifest['layout']
+  ): Promise<boolean> {
+    const { indexData, files: savedFiles } = layout === 'records'
+      ? await this.readRecordSnapshot(snapshot)
+      : await this.readKeySnapshot(snapshot)
+
+    let fileMap = new Map<string, FileMetadata>(savedFiles.map(file => [file.id, file]))
+    let miniSearch: MiniSearch<SearchableFile>
+    const migrated = schemaVersion < SCHEMA_VERSION
+
+    if (migrated) {
+      // Upgrade the metadata step by step, then rebuild the search index from it
+      let files = [...fileMap.values()]
+      for (let version = schemaVersion; version < SCHEMA_VERSION; version++) {
+        files = MIGRATIONS[version]?.(files) ?? files
+        console.log(`📦 Migrated search index from schema ${version} to ${version + 1}`)
+      }
+      fileMap = new Map(files.map(file => [file.id, file]))
+      const resolvedFiles = files.map(file => this.withAncestry(file, fileMap))
+      resolvedFiles.forEach(file => fileMap.set(file.id, file))
+
+      miniSearch = new MiniSearch<SearchableFile>(SEARCH_INDEX_OPTIONS)
+      miniSearch.addAll(resolvedFiles.map(file => this.toSearchableFile(file)))
+    } else {
+      // MiniSearch.loadJSON expects a JSON string, not a parsed object
+      miniSearch = MiniSearch.loadJSON<SearchableFile>(indexData, SEARCH_INDEX_OPTIONS)
+    }
+
+    if (snapshot.documentCount !== undefined && miniSearch.documentCount !== snapshot.documentCount) {
+      throw new Error(`Expected ${snapshot.documentCount} documents, found ${miniSearch.documentCount}`)
+    }
+
+    this.miniSearch = miniSearch
+    this.fileMap = fileMap
+    return migrated
+  }
+
+  private async readKeySnapshot(
+    snapshot: Pick<IndexSnapshot, 'indexKey' | 'metadataKey'> & Partial<IndexSnapshot>
+  ): Promise<{ indexData: string; files: FileMetadata[] }> {
     const [indexData, metadataData] = await Promise.all([
-      this.storage.read(this.indexKey),
-      this.storage.read(this.metadataKey)
+      this.storage.read(snapshot.indexKey),
+      this.storage.read(snapshot.metadataKey)
     ])
-    
-    
-    // Restore the search index with error handling
-    try {
-      // MiniSearch.loadJSON expects a JSON string, not a parsed object
-      this.miniSearch = MiniSearch.loadJSON(indexData, {
-        fields: ['name', 'pathTokens', 'typeKeywords'],
-        storeFields: ['id', 'name', 'mimeType', 'modifiedTime'],
-        idField: 'id'
-      })
-      
-    } catch (error) {
-      console.warn('⚠️ Failed to parse search index, starting fresh:', error)
-      // Start with a fresh index if corrupted
-      this.miniSearch = new MiniSearch({
-        fields: ['name', 'pathTokens', 'typeKeywords'],
-        storeFields: ['id', 'name', 'mimeType', 'modifiedTime'],
-        idField: 'id',
-        searchOptions: {
-          boost: {
-            name: 3,
-            pathTokens: 1,
-            typeKeywords: 2
-          },
-          fuzzy: 0.2,
-          prefix: true,
-          combineWith: 'AND'
-        }
-      })
+
+    if (snapshot.checksum && checksum(indexData, metadataData) !== snapshot.checksum) {
+      throw new Error('Checksum mismatch')
     }
-    
-    // Restore file metadata map with error handling
-    try {
-      const savedMetadata = JSON.parse(metadataData)
-      this.fileMap = new Map(savedMetadata)
-    } catch (error) {
-      console.warn('⚠️ Failed to parse metadata, starting fresh:', error)
-      this.fileMap = new Map()
+
+    const entries: Array<[string, FileMetadata]> = JSON.parse(metadataData)
+    return { indexData, files: entries.map(([, file]) => file) }
+  }
+
+  private async readRecordSnapshot(
+    snapshot: Pick<IndexSnapshot, 'indexKey' | 'metadataKey'> & Partial<IndexSnapshot>
+  ): Promise<{ indexData: string; files: FileMetadata[] }> {
+    if (!this.storage.readRecords) {
+      throw new Error('Index was saved as records, which this storage does not support')
+    }
+
+    const [savedFiles, chunks, changes] = await Promise.all([
+      this.storage.readRecords<FileMetadata>(this.userId, snapshot.metadataKey as RecordStoreName),
+      this.storage.readRecords<IndexChunk | LegacyIndexChunk>(this.userId, snapshot.indexKey as RecordStoreName),
+      snapshot.changesKey
+        ? this.storage.readRecords<PreviousFileRecord>(this.userId, snapshot.changesKey as RecordStoreName)
+        : []
+    ])
+
+    // The previous generation: the saved records with the ones the last save replaced put back
+    const fileMap = new Map(savedFiles.map(file => [file.id, file]))
+    changes.forEach(({ id, file }) => file ? fileMap.set(id, file) : fileMap.delete(id))
+    const files = [...fileMap.values()]
+
+    let indexData: string
+    if (snapshot.chunkKeys) {
+      const chunkData = new Map((chunks as IndexChunk[]).map(chunk => [chunk.key, chunk.data]))
+      indexData = snapshot.chunkKeys.map(key => {
+        const data = chunkData.get(key)
+        if (data === undefined) throw new Error(`Missing index chunk ${key}`)
+        return data
+      }).join('')
+    } else {
+      // Saved in the version 2 stores, which all users shared
+      if (chunks.length !== snapshot.chunkCount) {
+        throw new Error(`Expected ${snapshot.chunkCount} index chunks, found ${chunks.length}`)
+      }
+      indexData = (chunks as LegacyIndexChunk[]).sort((a, b) => a.index - b.index).map(chunk => chunk.data).join('')
+    }
+    if (checksum(indexData) !== snapshot.checksum) {
+      throw new Error('Checksum mismatch')
     }
+
+    return { indexData, files }
+  }
+
+  private async readManifest(): Promise<IndexManifest | null> {
+    if (!await this.storage.exists(this.manifestKey)) return null
+    return JSON.parse(await this.storage.read(this.manifestKey))
   }
 
   /**
-   * Save current index to storage
-   * Call this after any changes to persist them
+   * Save current index to storage right away
+   * Mutations schedule a save themselves; use flush() to wait for pending changes
    */
   async saveToStorage(): Promise<void> {
+    this.clearSaveTimer()
+    // Changes stay counted as unsaved until a rebuild makes the index safe to save
+    if (this.readOnly) return this.saveQueue
+
+    const changes = this.unsavedChanges
+    const records = this.pendingRecords
+    this.unsavedChanges = 0
+    this.firstUnsavedAt = null
+    this.pendingRecords = { changedIds: new Set(), removedIds: new Set(), rewriteAll: false }
+
+    // One save at a time, so generations are written and swapped in order
+    this.saveQueue = this.saveQueue.then(() => this.writeSnapshot(changes, records))
+    return this.saveQueue
+  }
+
+  /**
+   * Write pending changes now instead of waiting for the save timer
+   * Resolves once everything changed so far has been saved (or failed to save)
+   */
+  async flush(): Promise<void> {
+    if (this.unsavedChanges > 0) {
+      return this.saveToStorage()
+    }
+    return this.saveQueue
+  }
+
+  /**
+   * Record a mutation and push the save back until changes stop coming in,
+   * up to SAVE_MAX_DELAY_MS after the first unsaved one
+   */
+  private scheduleSave(changedIds: string[] = [], removedIds: string[] = []): void {
+    const { changedIds: changed, removedIds: removed } = this.pendingRecords
+    changedIds.forEach(id => {
+      removed.delete(id)
+      changed.add(id)
+    })
+    removedIds.forEach(id => {
+      changed.delete(id)
+      removed.add(id)
+    })
+
+    const now = Date.now()
+    this.unsavedChanges++
+    if (this.firstUnsavedAt === null) {
+      this.firstUnsavedAt = now
+    }
+    if (this.readOnly) return
+
+    this.clearSaveTimer()
+    const delay = Math.min(SAVE_IDLE_DELAY_MS, this.firstUnsavedAt + SAVE_MAX_DELAY_MS - now)
+    const timer: ReturnType<typeof setTimeout> = setTimeout(() => this.flush(), Math.max(0, delay))
+    // A pending save shouldn't keep a Node process alive; beforeExit flushes it
+    if (typeof timer === 'object' && 'unref' in timer) {
+      timer.unref()
+    }
+    this.saveTimer = timer
+  }
+
+  private clearSaveTimer(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer)
+      this.saveTimer = null
+    }
+  }
+
+  /**
+   * Save pending changes before Node exits, or when the page is hidden or closed
+   * Browsers don't wait for async work on unload, so saving when hidden matters most
+   */
+  private registerUnloadFlush(): void {
+    if (isNodeEnvironment()) {
+      process.on('beforeExit', () => this.flush())
+      return
+    }
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') this.flush()
+      })
+    }
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => this.flush())
+    }
+  }
+
+  /**
+   * Save the index as the next generation
+   * Storage with record stores gets only the changed file records; otherwise the
+   * whole index and metadata are written under new keys and swapped in
+   */
+  private async writeSnapshot(changes: number, records: PendingRecords): Promise<void> {
+    if (this.readOnly) return
+
     try {
       const start = performance.now()
-      
-      await Promise.all([
-        // Save the search index
-        this.storage.write(this.indexKey, JSON.stringify(this.miniSearch.toJSON())),
-        // Save file metadata separately (for full file info)
-        this.storage.write(this.metadataKey, JSON.stringify([...this.fileMap.entries()]))
-      ])
+
+      const indexData = JSON.stringify(this.miniSearch.toJSON())
+      // Past both saved generations, so neither is written over
+      const generation = Math.max(this.manifest?.current.generation ?? 0, this.manifest?.previous?.generation ?? 0) + 1
+      const manifest = this.storage.writeRecords
+        ? await this.writeRecordSnapshot(indexData, generation, records)
+        : await this.writeKeySnapshot(indexData, generation)
+
+      this.manifest = manifest
+      this.lastSavedAt = manifest.savedAt
       
       const saveTime = performance.now() - start
       console.log(`💾 Saved search index (${this.miniSearch.documentCount} files) in ${Math.round(saveTime)}ms`)
     } catch (error) {
       console.error('❌ Failed to save search index:', error)
+      // Keep the changes pending so the next save retries them
+      this.unsavedChanges += changes
+      if (this.firstUnsavedAt === null) {
+        this.firstUnsavedAt = Date.now()
+      }
+      this.pendingRecords.rewriteAll = true
     }
   }
 
+  /**
+   * Write the index and metadata under new keys, then point the manifest at them
+   * Until the manifest is written a reader still sees the previous generation in full
+   */
+  private async writeKeySnapshot(indexData: string, generation: number): Promise<IndexManifest> {
+    const metadataData = JSON.stringify([...this.fileMap.entries()])
+    const snapshot: IndexSnapshot = {
+      generation,
+      indexKey: this.getSnapshotKey(this.indexKey, generation),
+      metadataKey: this.getSnapshotKey(this.metadataKey, generation),
+      documentCount: this.miniSearch.documentCount,
+      checksum: checksum(indexData, metadataData)
+    }
+
+    await Promise.all([
+      // Save the search index
+      this.storage.write(snapshot.indexKey, indexData),
+      // Save file metadata separately (for full file info)
+      this.storage.write(snapshot.metadataKey, metadataData)
+    ])
+
+    const manifest: IndexManifest = {
+      schemaVersion: SCHEMA_VERSION,
+      savedAt: new Date().toISOString(),
+      current: snapshot,
+      previous: this.manifest?.layout === 'records' ? undefined : this.manifest?.current
+    }
+    await this.storage.write(this.manifestKey, JSON.stringify(manifest))
+
+    // The generation before the previous one is no longer referenced
+    const stale = this.manifest?.layout === 'records' ? undefined : this.manifest?.previous
+    if (stale) {
+      await Promise.all([this.storage.delete(stale.indexKey), this.storage.delete(stale.metadataKey)])
+    }
+    return manifest
+  }
+
+  /**
+   * Put changed file records and index chunks, delete removed records and chunks no
+   * longer used, all in the same transaction as the manifest
+   * The current generation becomes the previous one: its chunks stay, and the records
+   * this save replaces are kept aside so they can be put back
+   */
+  private async writeRecordSnapshot(
+    indexData: string,
+    generation: number,
+    records: PendingRecords
+  ): Promise<IndexManifest> {
+    const chunks: IndexChunk[] = splitIntoChunks(indexData)
+      .map(data => ({ key: `${checksum(data)}-${data.length}`, data }))
+    const chunkKeys = chunks.map(chunk => chunk.key)
+
+    // The current generation stays as the previous one, unless the user's stores don't hold it
+    // (e.g. after falling back to the previous generation) and are started over
+    const previous = this.recordsMatchManifest ? this.manifest?.current : undefined
+    const rewriteAll = records.rewriteAll || !previous
+
+    // Chunks of both saved generations are stored; those only the older one used can go
+    const savedKeys = new Set(previous ? [...previous.chunkKeys ?? [], ...this.manifest?.previous?.chunkKeys ?? []] : [])
+    const usedKeys = new Set([...chunkKeys, ...previous?.chunkKeys ?? []])
+
+    const manifest: IndexManifest = {
+      schemaVersion: SCHEMA_VERSION,
+      savedAt: new Date().toISOString(),
+      layout: 'records',
+      current: {
+        generation,
+        indexKey: INDEX_CHUNKS_STORE,
+        metadataKey: FILES_STORE,
+        documentCount: this.miniSearch.documentCount,
+        checksum: checksum(indexData),
+        chunkKeys
+      },
+      previous: previous && { ...previous, changesKey: PREVIOUS_FILES_STORE }
+    }
+
+    const files = rewriteAll
+      ? [...this.fileMap.values()]
+      : [...records.changedIds]
+          .map(id => this.fileMap.get(id))
+          .filter((file): file is FileMetadata => !!file)
+
+    const values: Record<string, string | null> = { [this.manifestKey]: JSON.stringify(manifest) }
+    // Generations saved under keys before switching to records are no longer needed
+    if (this.manifest && this.manifest.layout !== 'records') {
+      for (const snapshot of [this.manifest.current, this.manifest.previous]) {
+        if (!snapshot) continue
+        values[snapshot.indexKey] = null
+        values[snapshot.metadataKey] = null
+      }
+    }
+
+    const writes: RecordWrite[] = [
+      {
+        store: FILES_STORE,
+        clear: rewriteAll,
+        put: files,
+        delete: rewriteAll ? [] : [...records.removedIds]
+      },
+      {
+        store: INDEX_CHUNKS_STORE,
+        clear: !previous,
+        put: chunks.filter(chunk => !savedKeys.has(chunk.key)),
+        delete: [...savedKeys].filter(key => !usedKeys.has(key))
+      },
+      {
+        store: PREVIOUS_FILES_STORE,
+        clear: true,
+        put: previous ? await this.readReplacedRecords(records) : []
+      }
+    ]
+    // An index moved out of the version 2 stores leaves them behind
+    if (this.manifest?.layout === 'records' && this.manifest.current.metadataKey !== FILES_STORE) {
+      writes.push({ store: LEGACY_FILES_STORE, clear: true }, { store: LEGACY_INDEX_CHUNKS_STORE, clear: true })
+    }
+
+    await this.storage.writeRecords!(this.userId, writes, values)
+    this.recordsMatchManifest = true
+    return manifest
+  }
+
+  /**
+   * The saved records of the files a save changes or removes, as the previous generation has them
+   */
+  private async readReplacedRecords(records: PendingRecords): Promise<PreviousFileRecord[]> {
+    const savedFiles = records.rewriteAll
+      ? await this.storage.readRecords!<FileMetadata>(this.userId, FILES_STORE)
+      : await this.storage.readRecords!<FileMetadata>(this.userId, FILES_STORE, [...records.changedIds, ...records.removedIds])
+    const saved = new Map(savedFiles.map(file => [file.id, file]))
+
+    const ids = records.rewriteAll
+      ? new Set([...saved.keys(), ...this.fileMap.keys()])
+      : new Set([...records.changedIds, ...records.removedIds])
+    return [...ids].map(id => ({ id, file: saved.get(id) }))
+  }
+
+  private getSnapshotKey(key: string, generation: number): string {
+    // "default-search.json" -> "default-search.3.json"
+    return key.replace(/(\.json)?$/, `.${generation}$1`)
+  }
+
   /**
    * Add files to the index (incremental)
    */
@@ -205,24 +734,25 @@ export class PersistentSearchService {
       throw new Error('Search service not initialized. Call initialize() first.')
     }
 
-    // Prepare files for indexing
-    const searchableFiles: SearchableFile[] = files.map(file => ({
-      id: file.id,
-      name: file.name,
-      pathTokens: this.tokenizePath(file.name), // For Google Drive, we use name since no real paths
-      typeKeywords: this.getTypeKeywords(file.mimeType),
-      mimeType: file.mimeType,
-      modifiedTime: file.modifiedTime
-    }))
+    // Store full metadata first so files in this batch can resolve folders from the same batch.
+    // Sources don't send extracted text, so keep what was extracted before, along with the
+    // other sources that have the file.
+    files.forEach(file => this.fileMap.set(file.id, withSources(this.withSavedContent(file), this.fileMap.get(file.id))))
+
+    // Resolve folder paths and prepare files for indexing
+    const resolvedFiles = files.map(file => this.withAncestry(this.fileMap.get(file.id)!))
+    resolvedFiles.forEach(file => this.fileMap.set(file.id, file))
     
     // Add to search index
-    this.miniSearch.addAll(searchableFiles)
+    this.miniSearch.addAll(resolvedFiles.map(file => this.toSearchableFile(file)))
     
-    // Store full metadata separately
-    files.forEach(file => this.fileMap.set(file.id, file))
+    // New or renamed folders change the path of everything below them
+    const fileIds = files.map(file => file.id)
+    const folderIds = files.filter(file => this.isFolder(file)).map(file => file.id)
+    const movedIds = this.refreshDescendantPaths(folderIds, new Set(fileIds))
     
-    // Persist to storage
-    await this.saveToStorage()
+    // Persist to storage once changes settle
+    this.scheduleSave([...fileIds, ...movedIds])
   }
 
   /**
@@ -245,125 +775,140 @@ export class PersistentSearchService {
   async removeFiles(fileIds: string[]): Promise<void> {
     if (!this.isReady) return
 
+    const removedFolderIds = fileIds.filter(id => {
+      const file = this.fileMap.get(id)
+      return !!file && this.isFolder(file)
+    })
+
     // Remove from search index
     this.miniSearch.discardAll(fileIds)
     
     // Remove from metadata map
     fileIds.forEach(id => this.fileMap.delete(id))
     
-    // Persist changes
-    await this.saveToStorage()
+    // Files below a removed folder lose that part of their path
+    const movedIds = this.refreshDescendantPaths(removedFolderIds)
+    
+    // Persist changes once they settle
+    this.scheduleSave(movedIds, fileIds)
+  }
+
+  /**
+   * Drop one source from files, removing those no other source has
+   * Returns the IDs of the removed files
+   */
+  private async releaseFiles(files: FileMetadata[], sourceId: string): Promise<string[]> {
+    const released = files.filter(file => !file.source || getSources(file).includes(sourceId))
+    const keptFiles = released.map(file => withoutSource(file, sourceId)).filter(file => file.source)
+    const keptIds = new Set(keptFiles.map(file => file.id))
+    const removedIds = released.map(file => file.id).filter(id => !keptIds.has(id))
+
+    keptFiles.forEach(file => {
+      this.fileMap.set(file.id, file)
+      this.miniSearch.replace(this.toSearchableFile(file))
+    })
+    if (keptFiles.length > 0) this.scheduleSave([...keptIds])
+
+    if (removedIds.length > 0) await this.removeFiles(removedIds)
+    return removedIds
   }
 
   /**
    * Replace entire index (for full re-index)
+   * The new index is built on the side and swapped in at once, so searches keep
+   * using the old one until it is ready
    */
   async replaceIndex(files: FileMetadata[]): Promise<void> {
     if (!this.isReady) return
 
-    // Clear existing index
-    this.miniSearch.removeAll()
-    this.fileMap.clear()
-    
-    // Add all files
-    await this.addFiles(files)
+    // A file shared with several accounts is listed once for each of them
+    const fileMap = new Map<string, FileMetadata>()
+    files.forEach(file => fileMap.set(file.id, withSources(this.withSavedContent(file), fileMap.get(file.id))))
+    const resolvedFiles = [...fileMap.values()].map(file => this.withAncestry(file, fileMap))
+    resolvedFiles.forEach(file => fileMap.set(file.id, file))
+
+    const miniSearch = new MiniSearch<SearchableFile>(SEARCH_INDEX_OPTIONS)
+    miniSearch.addAll(resolvedFiles.map(file => this.toSearchableFile(file)))
+
+    this.miniSearch = miniSearch
+    this.fileMap = fileMap
+    // A complete rebuild replaces whatever failed to load, so it can be saved over it
+    if (!this.savedByNewerVersion) {
+      this.readOnly = false
+    }
+    this.pendingRecords.rewriteAll = true
+    this.unsavedChanges++
+    await this.saveToStorage()
   }
 
   /**
    * Search the index with optional filters
+   * Blank queries return nothing; see getRecentFiles() for the empty-query view
    */
-  search(query: string, limit: number = 20, filters?: SearchFilters): FileMetadata[] {
+  search(query: string, limit: number = 20, filters?: SearchFilters, options: SearchOptions = {}): FileMetadata[] {
     if (!this.isReady || !query.trim()) {
       return []
     }
 
+    // Quotes, -exclusions, OR and parentheses; while the query has a syntax error
+    // (e.g. a quote that isn't closed yet) its words are searched as plain terms
+    let queryTree: QueryNode | null
+    try {
+      queryTree = parseQuery(query)
+    } catch (error) {
+      if (!(error instanceof QuerySyntaxError)) throw error
+      queryTree = parsePlainQuery(query)
+    }
+    if (!queryTree) return []
+
     const start = performance.now()
-    const searchTerm = query.trim().toLowerCase()
+    const searchTerm = toTerms(getPositiveText(queryTree)).join(' ')
+    const searchedAt = new Date()
+    const compiledQuery = this.compileQuery(queryTree)
+    const ranking = { ...this.ranking.get(), ...options.ranking }
+
+    // The boost of a file is the same for every term it matched, so work it out once
+    const boostCache = new Map<string, ScoreBoost[]>()
+    const getBoosts = (docId: string) => {
+      let boosts = boostCache.get(docId)
+      if (!boosts) {
+        const file = this.fileMap.get(docId)
+        boosts = file ? this.getScoreBoosts(file, searchTerm, query, ranking, searchedAt) : []
+        boostCache.set(docId, boosts)
+      }
+      return boosts
+    }
+    const getDocumentBoost = (docId: string) => getBoosts(docId).reduce((total, boost) => total + boost.value, 1)
     
     // Try multiple search strategies for best results
     let results: any[] = []
     
-    // Create filter function if filters are provided
-    const createFilter = (filters?: SearchFilters) => {
-      if (!filters || (!filters.fileTypes?.length && !filters.dateRange)) {
-        return undefined // No filtering needed
-      }
-
-      return (result: any) => {
-        const file = this.fileMap.get(result.id)
-        if (!file) return false
-
-        // File type filtering
-        if (filters.fileTypes?.length) {
-          const matchesFileType = filters.fileTypes.some(filterType => 
-            this.matchesFileType(file.mimeType, filterType)
-          )
-          if (!matchesFileType) return false
-        }
-
-        // Date range filtering
-        if (filters.dateRange && file.modifiedTime) {
-          const fileDate = new Date(file.modifiedTime)
-          if (filters.dateRange.start && fileDate < filters.dateRange.start) return false
-          if (filters.dateRange.end && fileDate > filters.dateRange.end) return false
-        }
-
-        return true
-      }
+    // MiniSearch filters see search results; look the full file up for the filters,
+    // and check phrases and alternatives the index can't tell apart
+    const fileFilter = this.createFileFilter(filters)
+    const filterFn = (result: SearchResult) => {
+      const file = this.fileMap.get(result.id)
+      return !!file && (!fileFilter || fileFilter(file)) && this.matchesQuery(queryTree, result, this.createPhraseMatcher(file))
     }
 
-    const filterFn = createFilter(filters)
-
     try {
       // Strategy 1: Standard search with prefix enabled
-      results = this.miniSearch.search(searchTerm, {
-        limit,
+      results = this.miniSearch.search(compiledQuery, {
         prefix: true, // Enable prefix matching
         fuzzy: 0.2,
-        combineWith: 'OR', // Use OR for better recall on partial matches
+        boost: getFieldBoosts(ranking),
         filter: filterFn, // Apply filters
-        // Apply dynamic ranking boosts
-        boostDocument: (docId, term, storedFields) => {
-          const file = this.fileMap.get(docId)
-          if (!file) return 1
-
-          let boost = 1
-          
-          // Exact name match gets highest boost
-          if (file.name.toLowerCase().includes(searchTerm)) {
-            boost += 2
-          }
-          
-          // Name starts with query gets high boost
-          if (file.name.toLowerCase().startsWith(searchTerm)) {
-            boost += 1.5
-          }
-          
-          // Recency boost (exponential decay over 30 days)
-          if (file.modifiedTime) {
-            const daysSinceModified = (Date.now() - new Date(file.modifiedTime).getTime()) / (1000 * 60 * 60 * 24)
-            const recencyBoost = Math.exp(-daysSinceModified / 30)
-            boost += recencyBoost * 0.3
-          }
-          
-          // Frequency boost (if we track file opens)
-          if (file.openCount) {
-            const frequencyBoost = Math.log(1 + file.openCount)
-            boost += frequencyBoost * 0.2
-          }
-          
-          return boost
-        }
+        boostDocument: getDocumentBoost // Apply dynamic ranking boosts
       })
       
       // If no results with fuzzy search, try exact prefix match
       if (results.length === 0) {
-        results = this.miniSearch.search(searchTerm, {
-          limit,
+        results = this.miniSearch.search(compiledQuery, {
           prefix: true,
           fuzzy: false, // No fuzzy for exact prefix
-          combineWith: 'OR',
-          filter: filterFn // Apply same filters
+          boost: getFieldBoosts(ranking),
+          filter: filterFn, // Apply same filters
+          boostDocument: getDocumentBoost
         })
       }
       
@@ -375,10 +920,322 @@ export class PersistentSearchService {
     const searchTime = performance.now() - start
     console.log(`🔍 Search "${query}" found ${results.length} results in ${Math.round(searchTime)}ms`)
     
-    // Return full file metadata
+    // Return the best full file metadata with what matched, and the matching passage for files matched on their text
+    // MiniSearch has no limit of its own and returns every match, best first
     return results
-      .map(result => this.fileMap.get(result.id))
-      .filter((file): file is FileMetadata => file !== undefined)
+      .filter(result => this.fileMap.has(result.id))
+      .slice(0, limit)
+      .map(result => {
+        const file = this.fileMap.get(result.id)!
+        const matches: SearchMatch[] = Object.entries<string[]>(result.match || {}).map(([term, fields]) => ({
+          term,
+          fields: fields.map(field => MATCH_FIELDS[field]).filter(Boolean)
+        }))
+        const contentTerms = matches.filter(match => match.fields.includes('content')).map(match => match.term)
+        const documentBoost = getDocumentBoost(result.id)
+        return this.toResult(file, {
+          matches,
+          snippet: contentTerms.length > 0 ? this.createSnippet(file.content, contentTerms) : undefined,
+          explanation: options.explain
+            ? { score: result.score, relevance: result.score / documentBoost, documentBoost, boosts: getBoosts(result.id) }
+            : undefined
+        })
+      })
+  }
+
+  /**
+   * Files to show before anything is typed: what the user opened recently or often,
+   * then what other people changed lately. Active filters apply to both lists.
+   * excludeModifiers are the user's own emails, so their edits don't count as others'.
+   */
+  getRecentFiles(limit: number = 20, filters?: SearchFilters, excludeModifiers: string[] = []): RecentFiles {
+    if (!this.isReady) {
+      return { recentlyOpened: [], recentlyModified: [] }
+    }
+
+    const fileFilter = this.createFileFilter(filters)
+    const files = [...this.fileMap.values()].filter(file => !fileFilter || fileFilter(file))
+    const now = Date.now()
+
+    const openScore = (usage: FileUsage) => {
+      const daysSinceOpened = (now - new Date(usage.lastOpenedTime).getTime()) / (1000 * 60 * 60 * 24)
+      return Math.pow(0.5, daysSinceOpened / RECENT_OPEN_HALF_LIFE_DAYS) +
+        FREQUENT_OPEN_WEIGHT * Math.log(1 + usage.openCount)
+    }
+    const recentlyOpened = [...this.usage.entries()]
+      .map(([fileId, usage]) => ({ file: this.fileMap.get(fileId), usage }))
+      .filter((entry): entry is { file: FileMetadata; usage: FileUsage } =>
+        !!entry.file && (!fileFilter || fileFilter(entry.file)))
+      .map(({ file, usage }) => ({ file, score: openScore(usage) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ file }) => this.toResult(file))
+
+    const openedIds = new Set(recentlyOpened.map(file => file.id))
+    const ownEmails = new Set(excludeModifiers.map(email => email.toLowerCase()))
+    const recentlyModified = files
+      .filter(file =>
+        !openedIds.has(file.id) &&
+        !this.isFolder(file) && // Folders change whenever something is added to them
+        file.modifiedTime &&
+        file.lastModifyingUser &&
+        !ownEmails.has(file.lastModifyingUser.emailAddress?.toLowerCase())
+      )
+      .sort((a, b) => new Date(b.modifiedTime!).getTime() - new Date(a.modifiedTime!).getTime())
+      .slice(0, limit)
+      .map(file => this.toResult(file))
+
+    return { recentlyOpened, recentlyModified }
+  }
+
+  /**
+   * What lifts a file above its text match score; the boosts add up, plus one, to a
+   * multiplier of that score
+   */
+  private getScoreBoosts(
+    file: FileMetadata,
+    searchTerm: string,
+    query: string,
+    ranking: RankingConfig,
+    now: Date
+  ): ScoreBoost[] {
+    const boosts: ScoreBoost[] = []
+    const name = toTerms(file.name).join(' ')
+
+    // Exact name match gets highest boost
+    if (name.includes(searchTerm)) {
+      boosts.push({ reason: 'Name contains the query', value: ranking.nameContainsBoost })
+    }
+
+    // Name starts with query gets high boost
+    if (name.startsWith(searchTerm)) {
+      boosts.push({ reason: 'Name starts with the query', value: ranking.nameStartsWithBoost })
+    }
+
+    // Recency boost (exponential decay)
+    if (file.modifiedTime) {
+      const daysSinceModified = (now.getTime() - new Date(file.modifiedTime).getTime()) / (1000 * 60 * 60 * 24)
+      boosts.push({
+        reason: `Modified ${Math.max(0, Math.round(daysSinceModified))} days ago`,
+        value: Math.exp(-daysSinceModified / ranking.recencyDecayDays) * ranking.recencyWeight
+      })
+    }
+
+    // Frequency boost from opens, stronger for files picked lately for this query or
+    // one sharing its prefix ("bud" -> "FY26 Budget")
+    const usage = this.usage.get(file.id)
+    if (usage) {
+      boosts.push({
+        reason: `Opened ${usage.openCount} times`,
+        value: Math.log(1 + usage.openCount) * ranking.openCountWeight
+      })
+      const affinity = this.usage.queryAffinity(file.id, query, now)
+      if (affinity > 0) {
+        boosts.push({
+          reason: 'Picked before for a similar query',
+          value: Math.log(1 + affinity) * ranking.querySelectionWeight
+        })
+      }
+    }
+
+    return boosts.filter(boost => boost.value > 0)
+  }
+
+  /**
+   * Turn a parsed query into a MiniSearch query tree
+   * Terms inherit the fuzzy prefix matching of the search; phrases match their words exactly
+   * and are checked for adjacency afterwards (matchesQuery), and excluded words are only
+   * excluded on exact or prefix matches, so -draft doesn't also drop "drift"
+   */
+  private compileQuery(node: QueryNode): Query {
+    switch (node.type) {
+      case 'term':
+        return { combineWith: 'AND', queries: [node.text] }
+      case 'phrase':
+        return { combineWith: 'AND', queries: [node.text], fuzzy: false, prefix: false }
+      case 'or':
+        return { combineWith: 'OR', queries: node.children.map(child => this.compileQuery(child)) }
+      case 'not':
+        // Only reached for nested exclusions, e.g. -(-draft)
+        return { combineWith: 'AND_NOT', queries: [MiniSearch.wildcard, this.compileQuery(node.child)] }
+      case 'and': {
+        const included = node.children.filter(child => child.type !== 'not')
+        const query: Query = { combineWith: 'AND', queries: included.map(child => this.compileQuery(child)) }
+
+        // An excluded phrase is checked on the results instead: excluding its words
+        // would also drop files that only contain them apart
+        const excluded = node.children
+          .filter((child): child is Extract<QueryNode, { type: 'not' }> => child.type === 'not' && child.child.type !== 'phrase')
+          .map((child): Query => ({ combineWith: 'OR', queries: [this.compileQuery(child.child)], fuzzy: false }))
+        return excluded.length > 0 ? { combineWith: 'AND_NOT', queries: [query, ...excluded] } : query
+      }
+    }
+  }
+
+  /**
+   * Whether a search result really satisfies the query: its matched terms cover every
+   * required term and its text contains every phrase. Exclusions other than phrases were
+   * applied by the index already.
+   */
+  private matchesQuery(node: QueryNode, result: SearchResult, containsPhrase: (phrase: string) => boolean): boolean {
+    switch (node.type) {
+      case 'term':
+        return toTerms(node.text).every(term => result.queryTerms.includes(term))
+      case 'phrase':
+        return containsPhrase(node.text)
+      case 'not':
+        return node.child.type === 'phrase' ? !containsPhrase(node.child.text) : true
+      case 'and':
+        return node.children.every(child => this.matchesQuery(child, result, containsPhrase))
+      case 'or':
+        return node.children.some(child => this.matchesQuery(child, result, containsPhrase))
+    }
+  }
+
+  /**
+   * Whether the words of a phrase follow each other in the file's name, path or text
+   * The file's terms are only worked out once a phrase is checked
+   */
+  private createPhraseMatcher(file: FileMetadata): (phrase: string) => boolean {
+    let fileTerms: string | undefined
+    return phrase => {
+      fileTerms ??= ` ${toTerms([file.name, file.path, file.content].join(' ')).join(' ')} `
+      return fileTerms.includes(` ${toTerms(phrase).join(' ')} `)
+    }
+  }
+
+  /**
+   * Build a predicate for the active filters; undefined when nothing is filtered
+   */
+  private createFileFilter(filters?: SearchFilters): ((file: FileMetadata) => boolean) | undefined {
+    if (!filters || (
+      !filters.fileTypes?.length &&
+      !filters.folderScope?.length &&
+      !filters.owners?.length &&
+      !filters.modifiedBy?.length &&
+      !filters.drives?.length &&
+      !filters.dateRange
+    )) {
+      return undefined // No filtering needed
+    }
+
+    const scopeFolderIds = filters.folderScope?.length
+      ? this.findFolderIds(filters.folderScope)
+      : undefined
+
+    return (file: FileMetadata) => {
+      // Folder scope filtering (any depth below a matching folder)
+      if (scopeFolderIds) {
+        const inScope = file.ancestorIds?.some(id => scopeFolderIds.has(id))
+        if (!inScope) return false
+      }
+
+      // File type filtering
+      if (filters.fileTypes?.length) {
+        const matchesFileType = filters.fileTypes.some(filterType => 
+          this.matchesFileType(file, filterType)
+        )
+        if (!matchesFileType) return false
+      }
+
+      // Owner filtering
+      if (filters.owners?.length) {
+        const matchesOwner = file.owners?.some(owner => this.matchesPerson(owner, filters.owners!))
+        if (!matchesOwner) return false
+      }
+
+      // Last modifier filtering
+      if (filters.modifiedBy?.length) {
+        if (!file.lastModifyingUser || !this.matchesPerson(file.lastModifyingUser, filters.modifiedBy)) {
+          return false
+        }
+      }
+
+      // Drive filtering
+      if (filters.drives?.length) {
+        const driveName = (file.driveId ? file.driveName || '' : MY_DRIVE_NAME).toLowerCase()
+        if (!filters.drives.some(drive => drive.toLowerCase() === driveName)) return false
+      }
+
+      // Date range filtering
+      if (filters.dateRange && file.modifiedTime) {
+        const fileDate = new Date(file.modifiedTime)
+        if (filters.dateRange.start && fileDate < filters.dateRange.start) return false
+        if (filters.dateRange.end && fileDate > filters.dateRange.end) return false
+      }
+
+      return true
+    }
+  }
+
+  /**
+   * Suggest indexed folders whose name matches the prefix, for @in: autocompletion
+   * Folders sharing a name are listed once since scopes match by name
+   */
+  suggestFolders(prefix: string, limit: number = 8): Array<{ name: string; path?: string }> {
+    const term = prefix.trim().toLowerCase()
+    const suggestions = new Map<string, { name: string; path?: string }>()
+
+    for (const file of this.fileMap.values()) {
+      if (!this.isFolder(file)) continue
+
+      const name = file.name.toLowerCase()
+      if (!name.includes(term) || suggestions.has(name)) continue
+      suggestions.set(name, { name: file.name, path: file.path })
+    }
+
+    return [...suggestions.values()]
+      .sort((a, b) => {
+        const aStarts = a.name.toLowerCase().startsWith(term) ? 0 : 1
+        const bStarts = b.name.toLowerCase().startsWith(term) ? 0 : 1
+        return aStarts - bStarts || a.name.localeCompare(b.name)
+      })
+      .slice(0, limit)
+  }
+
+  /**
+   * Suggest drive names seen in the index for @drive: autocompletion
+   */
+  suggestDrives(prefix: string, limit: number = 8): string[] {
+    const term = prefix.trim().toLowerCase()
+    const driveNames = new Set<string>([MY_DRIVE_NAME])
+
+    for (const file of this.fileMap.values()) {
+      if (file.driveName) driveNames.add(file.driveName)
+    }
+
+    return [...driveNames]
+      .filter(name => name.toLowerCase().includes(term))
+      .sort((a, b) => a.localeCompare(b))
+      .slice(0, limit)
+  }
+
+  /**
+   * Suggest owners and last modifiers seen in the index, most frequent first
+   */
+  suggestPeople(prefix: string, limit: number = 8): Array<{ displayName: string; emailAddress: string }> {
+    const term = prefix.trim().toLowerCase()
+    const people = new Map<string, { displayName: string; emailAddress: string; count: number }>()
+
+    for (const file of this.fileMap.values()) {
+      const filePeople = [...(file.owners || []), ...(file.lastModifyingUser ? [file.lastModifyingUser] : [])]
+      for (const person of filePeople) {
+        if (!person.displayName || !this.matchesPerson(person, [term])) continue
+
+        const key = (person.emailAddress || person.displayName).toLowerCase()
+        const existing = people.get(key)
+        if (existing) {
+          existing.count++
+        } else {
+          people.set(key, { displayName: person.displayName, emailAddress: person.emailAddress, count: 1 })
+        }
+      }
+    }
+
+    return [...people.values()]
+      .sort((a, b) => b.count - a.count || a.displayName.localeCompare(b.displayName))
+      .slice(0, limit)
+      .map(({ displayName, emailAddress }) => ({ displayName, emailAddress }))
   }
 
   /**
@@ -388,34 +1245,143 @@ export class PersistentSearchService {
     return {
       totalFiles: this.miniSearch.documentCount,
       isReady: this.isReady,
+      unsavedChanges: this.unsavedChanges, // Mutations waiting for the next save
+      readOnly: this.readOnly, // The saved index couldn't be loaded; changes stay in memory until a rebuild
+      lastSavedAt: this.lastSavedAt,
       memoryUsage: typeof process !== 'undefined' && process.memoryUsage ? process.memoryUsage() : { rss: 0, heapUsed: 0, heapTotal: 0, external: 0, arrayBuffers: 0 }
     }
   }
 
   /**
-   * Track file usage for better ranking
+   * How much browser storage the index and everything else of the extension uses
+   * Returns null where the storage can't tell (e.g. Node.js)
    */
-  async trackFileOpen(fileId: string): Promise<void> {
-    const file = this.fileMap.get(fileId)
-    if (file) {
-      file.openCount = (file.openCount || 0) + 1
-      file.lastOpenedTime = new Date().toISOString()
-      this.fileMap.set(fileId, file)
-      
-      // Save periodically (not on every open to avoid too much I/O)
-      if (Math.random() < 0.1) { // 10% chance to save
-        await this.saveToStorage()
+  async getStorageUsage(): Promise<StorageUsage | null> {
+    try {
+      return this.storage.estimate ? await this.storage.estimate() : null
+    } catch (error) {
+      console.warn('Failed to estimate storage usage:', error)
+      return null
+    }
+  }
+
+  /**
+   * All indexed files one source has, including those another source synced last
+   * Files indexed before sources were tracked have none; includeUntagged counts them in
+   */
+  getFilesBySource(sourceId: string, includeUntagged: boolean = false): FileMetadata[] {
+    return [...this.fileMap.values()]
+      .filter(file => getSources(file).includes(sourceId) || (includeUntagged && !file.source))
+  }
+
+  /**
+   * Drop a source from the index, e.g. when its account is removed
+   * Files another source still has stay, under that source; the rest are removed
+   * Returns the IDs of the removed files
+   */
+  async removeSource(sourceId: string, includeUntagged: boolean = false): Promise<string[]> {
+    if (!this.isReady) return []
+    return this.releaseFiles(this.getFilesBySource(sourceId, includeUntagged), sourceId)
+  }
+
+  /**
+   * Track file usage for better ranking, along with the query the file was picked for
+   * Saved to the usage store right away, so it survives closing the popup and re-indexing
+   */
+  async trackFileOpen(fileId: string, query?: string): Promise<void> {
+    if (!this.fileMap.has(fileId)) return
+    await this.usage.recordOpen(fileId, query)
+  }
+
+  /**
+   * Forget every recorded open, e.g. from settings
+   */
+  async resetUsage(): Promise<void> {
+    await this.usage.reset()
+  }
+
+  /**
+   * The saved ranking weights, defaults filled in
+   */
+  getRankingConfig(): RankingConfig {
+    return this.ranking.get()
+  }
+
+  async updateRankingConfig(changes: Partial<RankingConfig>): Promise<RankingConfig> {
+    return this.ranking.update(changes)
+  }
+
+  async resetRankingConfig(): Promise<RankingConfig> {
+    return this.ranking.reset()
+  }
+
+  /**
+   * Files whose text is missing or older than the file, most recently modified first
+   * Folders never have text, so they are left out
+   */
+  getFilesNeedingContent(limit: number = 50): DriveFile[] {
+    return [...this.fileMap.values()]
+      .filter(file => !this.isFolder(file) && (file.content === undefined || file.contentModifiedTime !== file.modifiedTime))
+      .sort((a, b) => (b.modifiedTime || '').localeCompare(a.modifiedTime || ''))
+      .slice(0, limit)
+      .map(file => this.toResult(file))
+  }
+
+  /**
+   * Store extracted text and make it searchable
+   * Text is truncated to MAX_CONTENT_LENGTH; '' marks a file as having no text
+   */
+  async setFileContents(contents: FileContent[]): Promise<void> {
+    if (!this.isReady) return
+
+    const updatedIds: string[] = []
+    for (const { fileId, content, modifiedTime } of contents) {
+      const file = this.fileMap.get(fileId)
+      if (!file) continue // Removed while its text was being fetched
+
+      const updated: FileMetadata = {
+        ...file,
+        content: content.replace(/\s+/g, ' ').trim().slice(0, MAX_CONTENT_LENGTH),
+        contentModifiedTime: modifiedTime
       }
+      this.fileMap.set(fileId, updated)
+      this.miniSearch.replace(this.toSearchableFile(updated))
+      updatedIds.push(fileId)
     }
+
+    this.scheduleSave(updatedIds)
+  }
+
+  /**
+   * Drop all extracted text, e.g. when content indexing is turned off
+   */
+  async clearFileContents(): Promise<void> {
+    if (!this.isReady) return
+
+    const clearedIds: string[] = []
+    for (const file of this.fileMap.values()) {
+      if (file.content === undefined) continue
+      const { content, contentModifiedTime, ...cleared } = file
+      this.fileMap.set(file.id, cleared)
+      if (content) {
+        this.miniSearch.replace(this.toSearchableFile(cleared))
+      }
+      clearedIds.push(file.id)
+    }
+
+    this.scheduleSave(clearedIds)
+    console.log(`🧹 Cleared extracted text of ${clearedIds.length} files`)
   }
 
   /**
    * Get the stored change token for tracking changes
+   * Each source space (e.g. a shared drive) keeps its own token under a scope
    */
-  async getChangeToken(): Promise<string | null> {
+  async getChangeToken(scope?: string): Promise<string | null> {
+    const tokenKey = this.getChangeTokenKey(scope)
     try {
-      if (await this.storage.exists(this.changeTokenKey)) {
-        return await this.storage.read(this.changeTokenKey)
+      if (await this.storage.exists(tokenKey)) {
+        return await this.storage.read(tokenKey)
       }
     } catch (error) {
       console.warn('Failed to read change token:', error)
@@ -426,14 +1392,35 @@ export class PersistentSearchService {
   /**
    * Store the change token for future change tracking
    */
-  async saveChangeToken(token: string): Promise<void> {
+  async saveChangeToken(token: string, scope?: string): Promise<void> {
     try {
-      await this.storage.write(this.changeTokenKey, token)
+      // The token must not get ahead of the saved index, or a crash would skip the changes in between
+      if (this.readOnly) {
+        console.warn('⚠️ Search index is read-only, keeping the previous change token')
+        return
+      }
+      await this.flush()
+      if (this.unsavedChanges > 0) {
+        console.warn('⚠️ Search index not saved, keeping the previous change token')
+        return
+      }
+      await this.storage.write(this.getChangeTokenKey(scope), token)
     } catch (error) {
       console.error('Failed to save change token:', error)
     }
   }
 
+  /**
+   * Forget a change token so the space is fully listed on the next sync
+   */
+  async clearChangeToken(scope?: string): Promise<void> {
+    try {
+      await this.storage.write(this.getChangeTokenKey(scope), '')
+    } catch (error) {
+      console.error('Failed to clear change token:', error)
+    }
+  }
+
   /**
    * Process changes from Google Drive API
    * Updates the search index based on file additions, modifications, and deletions
@@ -442,84 +1429,255 @@ export class PersistentSearchService {
     fileId: string
     removed: boolean
     file?: FileMetadata
+    source?: string // Source reporting a removal; the file stays while another source has it
   }>): Promise<void> {
     if (!this.isReady || changes.length === 0) return
 
     const start = performance.now()
-    let addedCount = 0
-    let updatedCount = 0
-    let removedCount = 0
 
-    for (const change of changes) {
-      try {
-        if (change.removed || !change.file) {
-          // File was deleted or trashed
-          if (this.fileMap.has(change.fileId)) {
-            await this.removeFiles([change.fileId])
-            removedCount++
-          }
+    // Changes come in order, so the last one for a file is its current state
+    const latestChanges = new Map(changes.map(change => [change.fileId, change]))
+
+    const removedIds: string[] = []
+    const releasedBySource = new Map<string, FileMetadata[]>()
+    const updatedFiles: FileMetadata[] = []
+    const addedFiles: FileMetadata[] = []
+    for (const change of latestChanges.values()) {
+      const existingFile = this.fileMap.get(change.fileId)
+      if (change.removed || !change.file) {
+        // File was deleted or trashed, or the source lost access to it
+        if (!existingFile) continue
+        if (change.source) {
+          releasedBySource.set(change.source, [...(releasedBySource.get(change.source) || []), existingFile])
         } else {
-          // File was added or modified
-          const existingFile = this.fileMap.get(change.fileId)
-          if (existingFile) {
-            // Update existing file
-            await this.updateFiles([change.file])
-            updatedCount++
-          } else {
-            // Add new file
-            await this.addFiles([change.file])
-            addedCount++
-          }
+          removedIds.push(change.fileId)
         }
-      } catch (error) {
-        console.error(`Failed to process change for file ${change.fileId}:`, error)
+      } else if (existingFile) {
+        updatedFiles.push(change.file)
+      } else {
+        addedFiles.push(change.file)
+      }
+    }
+
+    // Apply each kind of change in one go, so folder paths below them are refreshed once
+    // per batch rather than once per change
+    let removedCount = 0
+    try {
+      if (removedIds.length > 0) {
+        await this.removeFiles(removedIds)
+        removedCount += removedIds.length
+      }
+      for (const [sourceId, files] of releasedBySource) {
+        removedCount += (await this.releaseFiles(files, sourceId)).length
+      }
+    } catch (error) {
+      console.error('Failed to process removed files:', error)
+    }
+
+    try {
+      if (updatedFiles.length + addedFiles.length > 0) {
+        this.miniSearch.discardAll(updatedFiles.map(file => file.id))
+        await this.addFiles([...updatedFiles, ...addedFiles])
       }
+    } catch (error) {
+      console.error('Failed to process added and modified files:', error)
     }
 
     const timeTaken = performance.now() - start
     console.log(
       `🔄 Processed ${changes.length} changes in ${Math.round(timeTaken)}ms: ` +
-      `+${addedCount} added, ~${updatedCount} updated, -${removedCount} removed`
+      `+${addedFiles.length} added, ~${updatedFiles.length} updated, -${removedCount} removed`
     )
   }
 
   // Helper methods - fileExists is no longer needed as we use storage.exists()
 
+  private getChangeTokenKey(scope?: string): string {
+    if (!scope) return this.changeTokenKey
+    // "default-change-token.txt" -> "default-change-token-<scope>.txt"
+    // Scopes can contain path separators (e.g. local roots), so encode them
+    return this.changeTokenKey.replace(/(\.txt)?$/, `-${encodeURIComponent(scope)}$1`)
+  }
+
+  private toSearchableFile(file: FileMetadata): SearchableFile {
+    return {
+      id: file.id,
+      name: file.name,
+      initials: this.getInitials(file.name),
+      pathTokens: file.path
+        ? file.path.split(PATH_SEPARATOR).map(segment => this.tokenizePath(segment)).join(' ')
+        : '',
+      typeKeywords: this.getTypeKeywords(file),
+      content: file.content || '',
+      mimeType: file.mimeType,
+      modifiedTime: file.modifiedTime,
+      source: file.source
+    }
+  }
+
+  /**
+   * A file as handed out by search: the extracted text stays in the index, which keeps
+   * results small on their way out of the worker
+   */
+  private toResult(file: FileMetadata, details: Pick<DriveFile, 'snippet' | 'matches' | 'explanation'> = {}): FileMetadata {
+    const { content, ...result } = file
+    return { ...result, ...details }
+  }
+
+  /**
+   * Carry over text extracted from an earlier version of the file; it is refreshed
+   * separately once its contentModifiedTime falls behind the file's modifiedTime
+   */
+  private withSavedContent(file: FileMetadata): FileMetadata {
+    const saved = this.fileMap.get(file.id)
+    if (file.content !== undefined || saved?.content === undefined) return file
+    return { ...file, content: saved.content, contentModifiedTime: saved.contentModifiedTime }
+  }
+
+  /**
+   * Passage of the text around the first matched term, cut at word boundaries
+   */
+  private createSnippet(content: string | undefined, terms: string[]): string | undefined {
+    if (!content) return undefined
+
+    // Terms are normalized ("resume"), the text may not be ("Résumé")
+    const { normalized, offsets } = normalizeWithOffsets(content)
+    const matchIndex = Math.min(...terms.map(term => {
+      const index = normalized.indexOf(term)
+      return index === -1 ? Infinity : offsets[index]
+    }))
+    if (matchIndex === Infinity) return undefined
+
+    let start = Math.max(0, matchIndex - SNIPPET_LENGTH / 4)
+    let end = Math.min(content.length, start + SNIPPET_LENGTH)
+    if (start > 0) start = content.indexOf(' ', start) + 1 || start
+    if (end < content.length) end = content.lastIndexOf(' ', end) > matchIndex ? content.lastIndexOf(' ', end) : end
+
+    return `${start > 0 ? '…' : ''}${content.slice(start, end).trim()}${end < content.length ? '…' : ''}`
+  }
+
+  private isFolder(file: FileMetadata): boolean {
+    return file.fileType === 'folders' || file.mimeType === FOLDER_MIME_TYPE
+  }
+
+  /**
+   * Walk the parent chain through folders in the index to build the file's path.
+   * Drive items can have several parents; like the Drive UI we follow the first one.
+   */
+  private withAncestry(file: FileMetadata, fileMap: Map<string, FileMetadata> = this.fileMap): FileMetadata {
+    const folderNames: string[] = []
+    const ancestorIds: string[] = []
+    const visited = new Set<string>([file.id])
+    let parentId = file.parents?.[0]
+
+    while (parentId && !visited.has(parentId)) {
+      visited.add(parentId)
+      ancestorIds.push(parentId)
+
+      const parent = fileMap.get(parentId)
+      if (!parent) break // Root folder or a folder we haven't indexed (yet)
+
+      folderNames.unshift(parent.name)
+      parentId = parent.parents?.[0]
+    }
+
+    return {
+      ...file,
+      path: folderNames.join(PATH_SEPARATOR) || undefined,
+      ancestorIds
+    }
+  }
+
+  private matchesPerson(person: { displayName?: string; emailAddress?: string }, terms: string[]): boolean {
+    const name = person.displayName?.toLowerCase() || ''
+    const email = person.emailAddress?.toLowerCase() || ''
+    return terms.some(term => {
+      const value = term.toLowerCase()
+      return name.includes(value) || email.includes(value)
+    })
+  }
+
+  private findFolderIds(folderNames: string[]): Set<string> {
+    const names = new Set(folderNames.map(name => name.toLowerCase()))
+    const folderIds = new Set<string>()
+
+    for (const file of this.fileMap.values()) {
+      if (this.isFolder(file) && names.has(file.name.toLowerCase())) {
+        folderIds.add(file.id)
+      }
+    }
+
+    return folderIds
+  }
+
+  /**
+   * Re-resolve paths of every indexed file below the given folders
+   */
+  private refreshDescendantPaths(folderIds: string[], skipIds: Set<string> = new Set()): string[] {
+    if (folderIds.length === 0) return []
+
+    const folders = new Set(folderIds)
+    const updatedIds: string[] = []
+    for (const file of [...this.fileMap.values()]) {
+      if (skipIds.has(file.id) || !file.ancestorIds?.some(id => folders.has(id))) continue
+
+      const updated = this.withAncestry(file)
+      this.fileMap.set(file.id, updated)
+      this.miniSearch.replace(this.toSearchableFile(updated))
+      updatedIds.push(file.id)
+    }
+    return updatedIds
+  }
+
   private tokenizePath(name: string): string {
-    // Enhanced tokenization for better searching
-    let tokenized = name
-      // Replace common separators with spaces
-      .replace(/[._\-+]/g, ' ')
+    // Also include the original filename as a token for exact matches
+    return `${this.splitWordParts(name)} ${name}`
+  }
+
+  /**
+   * The index splits on separators and normalizes case and accents; on top of that
+   * split camelCase and letters from digits
+   */
+  private splitWordParts(name: string): string {
+    return name
       // Split camelCase (e.g., "fileName" -> "file Name")
-      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .replace(/(\p{Ll})(\p{Lu})/gu, '$1 $2')
       // Split numbers from letters (e.g., "12345test" -> "12345 test")
-      .replace(/(\d+)([a-zA-Z])/g, '$1 $2')
-      .replace(/([a-zA-Z])(\d+)/g, '$1 $2')
-      // Normalize whitespace
-      .replace(/\s+/g, ' ')
-      .trim()
-      .toLowerCase()
-    
-    // Also include the original filename as a token for exact matches
-    return `${tokenized} ${name.toLowerCase()}`
+      .replace(/(\p{N})(\p{L})/gu, '$1 $2')
+      .replace(/(\p{L})(\p{N})/gu, '$1 $2')
   }
 
-  private getTypeKeywords(mimeType: string): string {
-    const keywords: string[] = []
-    
-    if (mimeType.includes('document')) keywords.push('doc', 'document', 'text', 'word')
-    if (mimeType.includes('spreadsheet')) keywords.push('sheet', 'excel', 'csv', 'table')
-    if (mimeType.includes('presentation')) keywords.push('slide', 'powerpoint', 'ppt', 'presentation')
-    if (mimeType.includes('pdf')) keywords.push('pdf', 'document')
-    if (mimeType.includes('folder')) keywords.push('folder', 'directory')
-    if (mimeType.includes('image')) keywords.push('image', 'photo', 'picture')
-    if (mimeType.includes('video')) keywords.push('video', 'movie')
-    if (mimeType.includes('audio')) keywords.push('audio', 'music', 'sound')
+  /**
+   * What the name could be typed as, the way IDE command palettes match: first letters with
+   * numbers and acronyms kept ("FY26 Budget" -> "fy26b"), and first letters alone ("fb")
+   * Empty for single-word names, where initials would only add noise
+   */
+  private getInitials(name: string): string {
+    const words = splitWords(this.splitWordParts(name)).filter(word => !isBigramScript(word[0]))
+    if (words.length < 2) return ''
+
+    const isNumber = (word: string) => /^\p{N}+$/u.test(word)
+    const isAcronym = (word: string) => /^\p{Lu}+$/u.test(word) && word.length <= MAX_ACRONYM_LENGTH
+    const compact = words.map(word => isNumber(word) || isAcronym(word) ? word : word[0]).join('')
+    const firstLetters = words.filter(word => !isNumber(word)).map(word => word[0]).join('')
+
+    return compact === firstLetters ? compact : `${compact} ${firstLetters}`
+  }
+
+  private getTypeKeywords(file: FileMetadata): string {
+    const fileTypes = (Object.keys(TYPE_KEYWORDS) as FileTypeFilter[])
+      .filter(fileType => this.matchesFileType(file, fileType))
     
-    return keywords.join(' ')
+    return fileTypes.flatMap(fileType => TYPE_KEYWORDS[fileType]).join(' ')
   }
 
-  private matchesFileType(mimeType: string, filterType: FileTypeFilter): boolean {
+  private matchesFileType(file: FileMetadata, filterType: FileTypeFilter): boolean {
+    // Providers assign a category; older index entries only have a mimeType
+    if (file.fileType) {
+      return file.fileType === filterType
+    }
+
+    const mimeType = file.mimeType
     switch (filterType) {
       case 'documents':
         return mimeType.includes('document')
@@ -564,5 +1722,90 @@ export class PersistentSearchService {
   }
 }
 
+// Random values for the rolling hash that ends index chunks; fixed, so the same text is cut the same way
+const CHUNK_GEAR = Array.from({ length: 256 }, (_, i) => {
+  let value = Math.imul(i + 1, 0x9e3779b1)
+  value = Math.imul(value ^ (value >>> 16), 0x85ebca6b)
+  value = Math.imul(value ^ (value >>> 13), 0xc2b2ae35)
+  return (value ^ (value >>> 16)) | 0
+})
+
+/**
+ * Cut text into pieces of about INDEX_CHUNK_SIZE characters, ending a piece where a
+ * rolling hash of the last 32 characters has its top bits clear. An edit only moves the ends
+ * of the pieces around it, so the rest come out the same as before
+ */
+function splitIntoChunks(text: string): string[] {
+  const minSize = INDEX_CHUNK_SIZE / 4
+  const maxSize = INDEX_CHUNK_SIZE * 4
+  // Past the minimum size a piece ends about once in every INDEX_CHUNK_SIZE characters
+  const boundaryBits = Math.log2(INDEX_CHUNK_SIZE)
+
+  const chunks: string[] = []
+  let start = 0
+  let hash = 0
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 1) + CHUNK_GEAR[text.charCodeAt(i) & 0xff]) | 0
+    const size = i + 1 - start
+    if (size >= maxSize || (size >= minSize && hash >>> (32 - boundaryBits) === 0)) {
+      chunks.push(text.slice(start, i + 1))
+      start = i + 1
+    }
+  }
+  if (start < text.length) chunks.push(text.slice(start))
+  return chunks
+}
+
+/**
+ * FNV-1a hash of the saved strings, to catch truncated or mixed-up writes
+ */
+function checksum(...parts: string[]): string {
+  let hash = 0x811c9dc5
+  for (const part of parts) {
+    for (let i = 0; i < part.length; i++) {
+      hash ^= part.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Sources that have the file; files indexed before sources were tracked have none
+ */
+function getSources(file: FileMetadata): string[] {
+  return file.sources ?? (file.source ? [file.source] : [])
+}
+
+/**
+ * The file as its source sent it, still listing the other sources that have it
+ */
+function withSources(file: FileMetadata, saved: FileMetadata | undefined): FileMetadata {
+  const others = saved ? getSources(saved).filter(source => source !== file.source) : []
+  if (!file.source || others.length === 0) return file
+  return { ...file, sources: [...others, file.source] }
+}
+
+/**
+ * The file without one source, under the source that synced it last of those left
+ */
+function withoutSource(file: FileMetadata, sourceId: string): FileMetadata {
+  const sources = getSources(file).filter(source => source !== sourceId)
+  return { ...file, source: sources[sources.length - 1], sources: sources.length > 1 ? sources : undefined }
+}
+
+/**
+ * MiniSearch field boosts for the ranking weights
+ */
+function getFieldBoosts(ranking: RankingConfig): Record<string, number> {
+  return {
+    name: ranking.nameWeight,
+    initials: ranking.initialsWeight,
+    pathTokens: ranking.pathWeight,
+    typeKeywords: ranking.typeWeight,
+    content: ranking.contentWeight
+  }
+}
+
 // Export singleton instance for easy use
 export const searchService = new PersistentSearchService()
\ No newline at end of file
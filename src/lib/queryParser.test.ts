@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest'
+import { getPositiveText, parsePlainQuery, parseQuery, QuerySyntaxError, type QueryNode } from './queryParser'
+
+const term = (text: string): QueryNode => ({ type: 'term', text })
+const phrase = (text: string): QueryNode => ({ type: 'phrase', text })
+const not = (child: QueryNode): QueryNode => ({ type: 'not', child })
+const and = (...children: QueryNode[]): QueryNode => ({ type: 'and', children })
+const or = (...children: QueryNode[]): QueryNode => ({ type: 'or', children })
+
+function syntaxError(query: string): QuerySyntaxError {
+  try {
+    parseQuery(query)
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return error
+    throw error
+  }
+  throw new Error(`Expected a syntax error for ${query}`)
+}
+
+describe('parseQuery', () => {
+  it('returns null without terms', () => {
+    expect(parseQuery('')).toBeNull()
+    expect(parseQuery('   ')).toBeNull()
+    expect(parseQuery('- 🎉')).toBeNull()
+  })
+
+  it('reads a single word as a term', () => {
+    expect(parseQuery('budget')).toEqual(term('budget'))
+  })
+
+  it('requires every word', () => {
+    expect(parseQuery('budget 2026 draft')).toEqual(and(term('budget'), term('2026'), term('draft')))
+  })
+
+  describe('phrases', () => {
+    it('keeps quoted words together', () => {
+      expect(parseQuery('"quarterly report"')).toEqual(phrase('quarterly report'))
+    })
+
+    it('trims the inside of the quotes', () => {
+      expect(parseQuery('"  quarterly report "')).toEqual(phrase('quarterly report'))
+    })
+
+    it('mixes phrases with words', () => {
+      expect(parseQuery('budget "quarterly report" 2026')).toEqual(and(term('budget'), phrase('quarterly report'), term('2026')))
+    })
+
+    it('ends a word at a quote', () => {
+      expect(parseQuery('budget"q3 plan"')).toEqual(and(term('budget'), phrase('q3 plan')))
+    })
+  })
+
+  describe('exclusions', () => {
+    it('excludes a word with a leading dash', () => {
+      expect(parseQuery('budget -draft')).toEqual(and(term('budget'), not(term('draft'))))
+    })
+
+    it('excludes phrases and groups', () => {
+      expect(parseQuery('budget -"first draft"')).toEqual(and(term('budget'), not(phrase('first draft'))))
+      expect(parseQuery('budget -(draft OR old)')).toEqual(and(term('budget'), not(or(term('draft'), term('old')))))
+    })
+
+    it('keeps a dash inside a word', () => {
+      expect(parseQuery('e-mail')).toEqual(term('e-mail'))
+    })
+
+    it('skips a dash on its own', () => {
+      expect(parseQuery('budget - draft')).toEqual(and(term('budget'), term('draft')))
+    })
+  })
+
+  describe('OR', () => {
+    it('matches either side', () => {
+      expect(parseQuery('budget OR forecast')).toEqual(or(term('budget'), term('forecast')))
+    })
+
+    it('binds looser than AND', () => {
+      expect(parseQuery('q3 budget OR q4 forecast')).toEqual(or(and(term('q3'), term('budget')), and(term('q4'), term('forecast'))))
+    })
+
+    it('is only an operator in capitals', () => {
+      expect(parseQuery('budget or forecast')).toEqual(and(term('budget'), term('or'), term('forecast')))
+    })
+
+    it('chains', () => {
+      expect(parseQuery('a OR b OR c')).toEqual(or(term('a'), term('b'), term('c')))
+    })
+  })
+
+  describe('grouping', () => {
+    it('groups with parentheses', () => {
+      expect(parseQuery('(budget OR forecast) 2026')).toEqual(and(or(term('budget'), term('forecast')), term('2026')))
+    })
+
+    it('nests', () => {
+      expect(parseQuery('((a OR b) c) OR d')).toEqual(or(and(or(term('a'), term('b')), term('c')), term('d')))
+    })
+
+    it('unwraps a group of one', () => {
+      expect(parseQuery('(budget)')).toEqual(term('budget'))
+    })
+  })
+
+  describe('syntax errors', () => {
+    it.each([
+      ['"quarterly report', 'Missing closing quote', 0],
+      ['budget ""', 'Empty quotes', 7],
+      ['budget " - "', 'Empty quotes', 7],
+      ['(budget OR forecast', 'Missing closing parenthesis', 0],
+      ['budget)', 'Unexpected ")"', 6],
+      ['(budget))', 'Unexpected ")"', 8],
+      ['budget ()', 'Empty parentheses', 7],
+      ['budget OR', 'Expected a term after OR', 7],
+      ['OR budget', 'Expected a term before OR', 0],
+      ['budget OR OR forecast', 'Expected a term after OR', 7],
+      ['(budget OR) forecast', 'Expected a term after OR', 8],
+      ['budget (', 'Expected a term', 8],
+      ['budget -)', 'Expected a term after "-"', 7],
+      ['(budget -)', 'Expected a term after "-"', 8],
+      ['budget -OR forecast', 'Expected a term after "-"', 7],
+      ['-draft', 'Add a term to search for besides the exclusions', 0],
+      ['-draft -old', 'Add a term to search for besides the exclusions', 0],
+      ['-(draft OR old)', 'Add a term to search for besides the exclusions', 0],
+      ['budget OR -draft', 'Each side of OR needs a term to search for', 0],
+      ['(a OR -b) c', 'Each side of OR needs a term to search for', 0]
+    ])('%s', (query, message, position) => {
+      const error = syntaxError(query)
+      expect(error.message).toBe(message)
+      expect(error.position).toBe(position)
+    })
+
+    it('allows exclusions next to a term inside OR', () => {
+      expect(parseQuery('budget OR forecast -draft')).toEqual(or(term('budget'), and(term('forecast'), not(term('draft')))))
+    })
+  })
+})
+
+describe('parsePlainQuery', () => {
+  it('ignores quotes, parentheses, OR and exclusions', () => {
+    expect(parsePlainQuery('"quarterly (report OR -draft')).toEqual(and(term('quarterly'), term('report')))
+  })
+
+  it('returns null without terms', () => {
+    expect(parsePlainQuery('"" -draft')).toBeNull()
+  })
+})
+
+describe('getPositiveText', () => {
+  it('joins terms and phrases, leaving out exclusions', () => {
+    expect(getPositiveText(parseQuery('(budget OR "q3 plan") -draft 2026')!)).toBe('budget q3 plan 2026')
+  })
+})
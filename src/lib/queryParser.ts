@@ -0,0 +1,234 @@
+import { toTerms } from './textPipeline'
+
+// Search query grammar:
+//   query   := orExpr
+//   orExpr  := andExpr ("OR" andExpr)*
+//   andExpr := unary+                      (terms next to each other must all match)
+//   unary   := "-" unary | primary         (-draft excludes files matching draft)
+//   primary := word | "exact phrase" | "(" orExpr ")"
+
+export type QueryNode =
+  | { type: 'term'; text: string } // Matched fuzzily and as a prefix, like plain search
+  | { type: 'phrase'; text: string } // Words that must appear together, in this order
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+
+/**
+ * Thrown for a query that doesn't follow the grammar; position is the offending character
+ */
+export class QuerySyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message)
+    this.name = 'QuerySyntaxError'
+  }
+}
+
+type Token =
+  | { type: 'word' | 'phrase'; text: string; position: number }
+  | { type: 'or' | 'not' | 'open' | 'close'; position: number }
+
+/**
+ * Parse a search query into a tree; null for a query without any terms
+ * Throws QuerySyntaxError for unbalanced quotes or parentheses, dangling operators and
+ * queries that only exclude
+ */
+export function parseQuery(query: string): QueryNode | null {
+  const tokens = tokenize(query)
+  if (tokens.length === 0) return null
+
+  const parser = new QueryParser(tokens, query.length)
+  const node = parser.parse()
+
+  checkAlternatives(node)
+  if (!hasPositiveTerm(node)) {
+    throw new QuerySyntaxError('Add a term to search for besides the exclusions', 0)
+  }
+  return node
+}
+
+/**
+ * The query as plain terms, ignoring quotes, parentheses, OR and exclusions
+ * Used to keep searching while the query has a syntax error, e.g. an unclosed quote mid-typing
+ */
+export function parsePlainQuery(query: string): QueryNode | null {
+  const terms = query
+    .replace(/["()]/g, ' ')
+    .split(/\s+/)
+    .filter(word => toTerms(word).length > 0 && word !== 'OR' && !word.startsWith('-'))
+    .map((text): QueryNode => ({ type: 'term', text }))
+
+  if (terms.length === 0) return null
+  return terms.length === 1 ? terms[0] : { type: 'and', children: terms }
+}
+
+/**
+ * Text of every term and phrase the query looks for, without the excluded ones
+ */
+export function getPositiveText(node: QueryNode): string {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return node.text
+    case 'not':
+      return ''
+    default:
+      return node.children.map(getPositiveText).filter(Boolean).join(' ')
+  }
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < query.length) {
+    const char = query[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '(') {
+      tokens.push({ type: 'open', position: i++ })
+    } else if (char === ')') {
+      tokens.push({ type: 'close', position: i++ })
+    } else if (char === '"') {
+      const end = query.indexOf('"', i + 1)
+      if (end === -1) {
+        throw new QuerySyntaxError('Missing closing quote', i)
+      }
+      const text = query.slice(i + 1, end).trim()
+      if (toTerms(text).length === 0) {
+        throw new QuerySyntaxError('Empty quotes', i)
+      }
+      tokens.push({ type: 'phrase', text, position: i })
+      i = end + 1
+    } else if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      // A dash starting a word excludes it; inside a word ("e-mail") it is part of the word
+      tokens.push({ type: 'not', position: i++ })
+    } else {
+      const start = i
+      while (i < query.length && !/[\s()"]/.test(query[i])) i++
+      const text = query.slice(start, i)
+      if (toTerms(text).length === 0) continue // Not a term to the index, e.g. a dash or emoji on its own
+      tokens.push(text === 'OR' ? { type: 'or', position: start } : { type: 'word', text, position: start })
+    }
+  }
+
+  return tokens
+}
+
+class QueryParser {
+  private index: number = 0
+
+  constructor(private tokens: Token[], private queryLength: number) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr()
+    const token = this.peek()
+    if (token) {
+      // parseOr only stops early at a closing parenthesis
+      throw new QuerySyntaxError('Unexpected ")"', token.position)
+    }
+    return node
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()]
+    while (this.peek()?.type === 'or') {
+      const or = this.next()!
+      if (!this.startsOperand()) {
+        throw new QuerySyntaxError('Expected a term after OR', or.position)
+      }
+      children.push(this.parseAnd())
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children }
+  }
+
+  private parseAnd(): QueryNode {
+    const children: QueryNode[] = []
+    while (this.startsOperand()) {
+      children.push(this.parseUnary())
+    }
+
+    if (children.length === 0) {
+      const token = this.peek()
+      if (token?.type === 'or') {
+        throw new QuerySyntaxError('Expected a term before OR', token.position)
+      }
+      throw new QuerySyntaxError('Expected a term', token?.position ?? this.queryLength)
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children }
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.next()!
+    switch (token.type) {
+      case 'not':
+        if (!this.startsOperand()) {
+          throw new QuerySyntaxError('Expected a term after "-"', token.position)
+        }
+        return { type: 'not', child: this.parseUnary() }
+      case 'word':
+        return { type: 'term', text: token.text }
+      case 'phrase':
+        return { type: 'phrase', text: token.text }
+      case 'open': {
+        if (this.peek()?.type === 'close') {
+          throw new QuerySyntaxError('Empty parentheses', token.position)
+        }
+        const node = this.parseOr()
+        if (this.next()?.type !== 'close') {
+          throw new QuerySyntaxError('Missing closing parenthesis', token.position)
+        }
+        return node
+      }
+      default:
+        throw new QuerySyntaxError('Expected a term', token.position)
+    }
+  }
+
+  private startsOperand(): boolean {
+    const type = this.peek()?.type
+    return type === 'word' || type === 'phrase' || type === 'not' || type === 'open'
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++]
+  }
+}
+
+/**
+ * Whether matching the node takes matching some term or phrase
+ * Only exclusions alongside a term can be searched: the index finds files by what they contain
+ */
+function hasPositiveTerm(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return true
+    case 'not':
+      return false
+    case 'and':
+      return node.children.some(hasPositiveTerm)
+    case 'or':
+      return node.children.every(hasPositiveTerm)
+  }
+}
+
+/**
+ * Every alternative of an OR needs a term of its own ("a OR -b" would match nearly everything)
+ */
+function checkAlternatives(node: QueryNode): void {
+  if (node.type === 'term' || node.type === 'phrase') return
+  if (node.type === 'not') {
+    checkAlternatives(node.child)
+    return
+  }
+  if (node.type === 'or' && !node.children.every(hasPositiveTerm)) {
+    throw new QuerySyntaxError('Each side of OR needs a term to search for', 0)
+  }
+  node.children.forEach(checkAlternatives)
+}
@@ -0,0 +1,138 @@
+import { createStorage, joinPath, getCurrentDirectory, type StorageInterface } from './storage'
+
+/**
+ * Weights that decide the order of search results
+ * Field weights scale text matches in each field; the rest add up to a per-file boost
+ * that multiplies the text match score
+ */
+export interface RankingConfig {
+  nameWeight: number
+  initialsWeight: number // Matches of a name's initials, e.g. "qbr" for "Quarterly Business Review"
+  pathWeight: number
+  typeWeight: number
+  contentWeight: number
+  nameContainsBoost: number // Name contains the whole query
+  nameStartsWithBoost: number // Name starts with the query (on top of contains)
+  recencyWeight: number // Boost for a file modified just now...
+  recencyDecayDays: number // ...falling off exponentially over this many days
+  openCountWeight: number // Per (log) open of the file
+  querySelectionWeight: number // Per (log) recent pick of the file for the same or a similar query
+}
+
+export const DEFAULT_RANKING_CONFIG: RankingConfig = {
+  nameWeight: 3,
+  initialsWeight: 2,
+  pathWeight: 1,
+  typeWeight: 2,
+  contentWeight: 0.5,
+  nameContainsBoost: 2,
+  nameStartsWithBoost: 1.5,
+  recencyWeight: 0.3,
+  recencyDecayDays: 30,
+  openCountWeight: 0.2,
+  querySelectionWeight: 3
+}
+
+// Labels for settings and the CLI, in display order
+export const RANKING_FIELDS: Array<{ key: keyof RankingConfig; label: string }> = [
+  { key: 'nameWeight', label: 'Name match weight' },
+  { key: 'initialsWeight', label: 'Initials match weight' },
+  { key: 'pathWeight', label: 'Folder path match weight' },
+  { key: 'typeWeight', label: 'File type match weight' },
+  { key: 'contentWeight', label: 'Content match weight' },
+  { key: 'nameContainsBoost', label: 'Name contains query' },
+  { key: 'nameStartsWithBoost', label: 'Name starts with query' },
+  { key: 'recencyWeight', label: 'Recently modified' },
+  { key: 'recencyDecayDays', label: 'Recency decay (days)' },
+  { key: 'openCountWeight', label: 'Often opened' },
+  { key: 'querySelectionWeight', label: 'Picked for similar queries' }
+]
+
+/**
+ * The user's ranking weights, saved next to the index
+ * Only values that differ from the defaults are kept, so improved defaults still reach everyone else
+ */
+export class RankingConfigStore {
+  private storage: StorageInterface
+  private configKey: string
+  private indexDir?: string
+  private overrides: Partial<RankingConfig> = {}
+
+  constructor(userId: string = 'default') {
+    this.storage = createStorage()
+
+    // Same layout as the search index: files in Node.js, keys in the browser
+    if (typeof process !== 'undefined' && process.versions?.node) {
+      this.indexDir = joinPath(getCurrentDirectory(), 'data', 'indexes')
+      this.configKey = joinPath(this.indexDir, `${userId}-ranking.json`)
+    } else {
+      this.configKey = `${userId}-ranking.json`
+    }
+  }
+
+  async load(): Promise<void> {
+    try {
+      if (await this.storage.exists(this.configKey)) {
+        this.overrides = sanitizeRankingConfig(JSON.parse(await this.storage.read(this.configKey)))
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to read ranking settings, using the defaults:', error)
+    }
+  }
+
+  get(): RankingConfig {
+    return { ...DEFAULT_RANKING_CONFIG, ...this.overrides }
+  }
+
+  async update(changes: Partial<RankingConfig>): Promise<RankingConfig> {
+    const config = { ...this.get(), ...sanitizeRankingConfig(changes) }
+    this.overrides = Object.fromEntries(
+      Object.entries(config).filter(([key, value]) => DEFAULT_RANKING_CONFIG[key as keyof RankingConfig] !== value)
+    )
+    await this.save()
+    return this.get()
+  }
+
+  async reset(): Promise<RankingConfig> {
+    this.overrides = {}
+    await this.save()
+    return this.get()
+  }
+
+  private async save(): Promise<void> {
+    if (this.indexDir) {
+      await this.storage.ensureDirectory(this.indexDir)
+    }
+    await this.storage.write(this.configKey, JSON.stringify(this.overrides))
+  }
+}
+
+/**
+ * Keep only known weights that are finite, non-negative numbers (decay days must be positive)
+ */
+export function sanitizeRankingConfig(values: Record<string, unknown>): Partial<RankingConfig> {
+  const config: Partial<RankingConfig> = {}
+  for (const { key } of RANKING_FIELDS) {
+    const value = values[key]
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) continue
+    if (key === 'recencyDecayDays' && value === 0) continue
+    config[key] = value
+  }
+  return config
+}
+
+/**
+ * Parse a "weight=value" override, as given to the command-line tools
+ */
+export function parseRankingOverride(assignment: string): Partial<RankingConfig> {
+  const [key, value] = assignment.split('=')
+  if (!RANKING_FIELDS.some(field => field.key === key)) {
+    throw new Error(`Unknown ranking weight "${key}". Known weights: ${RANKING_FIELDS.map(field => field.key).join(', ')}`)
+  }
+
+  const override = sanitizeRankingConfig({ [key]: Number(value) })
+  if (!(key in override)) {
+    throw new Error(`Invalid value for ${key}: ${value}`)
+  }
+  return override
+}
@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fetchWithRetry, type RetryOptions } from './request'
+
+const URL = 'https://www.googleapis.com/drive/v3/files'
+
+function respond(status: number, body: unknown = {}, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers })
+}
+
+function rateLimit403(reason: string = 'userRateLimitExceeded'): Response {
+  return respond(403, { error: { code: 403, errors: [{ reason }] } })
+}
+
+/**
+ * Retry options answering with the given responses in order; an Error is thrown as a network error
+ */
+function replay(...responses: Array<Response | Error>) {
+  const fetch = vi.fn(async () => {
+    const next = responses.shift()
+    if (!next) throw new Error('Unexpected request')
+    if (next instanceof Error) throw next
+    return next
+  })
+  const sleep = vi.fn(async (_ms: number) => {})
+  const options: RetryOptions = { fetch: fetch as unknown as typeof globalThis.fetch, sleep, random: () => 0 }
+  return { fetch, sleep, options }
+}
+
+describe('fetchWithRetry', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('returns a successful response without retrying', async () => {
+    const { fetch, sleep, options } = replay(respond(200, { files: [] }))
+
+    const response = await fetchWithRetry(URL, {}, options)
+
+    expect(response.status).toBe(200)
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(sleep).not.toHaveBeenCalled()
+  })
+
+  it('passes the request through unchanged', async () => {
+    const { fetch, options } = replay(respond(200))
+    const init = { headers: { Authorization: 'Bearer token' } }
+
+    await fetchWithRetry(URL, init, options)
+
+    expect(fetch).toHaveBeenCalledWith(URL, init)
+  })
+
+  it.each([429, 500, 502, 503, 504])('retries %i', async status => {
+    const { fetch, options } = replay(respond(status), respond(200))
+
+    const response = await fetchWithRetry(URL, {}, options)
+
+    expect(response.status).toBe(200)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it.each(['userRateLimitExceeded', 'rateLimitExceeded'])('retries a 403 for %s', async reason => {
+    const { fetch, options } = replay(rateLimit403(reason), respond(200))
+
+    const response = await fetchWithRetry(URL, {}, options)
+
+    expect(response.status).toBe(200)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('returns other 403s and 4xx responses right away', async () => {
+    for (const response of [rateLimit403('insufficientPermissions'), respond(403, 'not json'), respond(404)]) {
+      const { fetch, options } = replay(response)
+
+      expect(await fetchWithRetry(URL, {}, options)).toBe(response)
+      expect(fetch).toHaveBeenCalledTimes(1)
+    }
+  })
+
+  it('leaves the body of a returned 403 unread', async () => {
+    const { options } = replay(rateLimit403('insufficientPermissions'))
+
+    const response = await fetchWithRetry(URL, {}, options)
+
+    expect(await response.json()).toEqual({ error: { code: 403, errors: [{ reason: 'insufficientPermissions' }] } })
+  })
+
+  it('backs off exponentially with jitter', async () => {
+    const { sleep, options } = replay(respond(503), respond(503), respond(503), respond(200))
+
+    await fetchWithRetry(URL, {}, { ...options, baseDelayMs: 100, random: () => 0.5 })
+
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([150, 250, 450])
+  })
+
+  it('caps the backoff at maxDelayMs', async () => {
+    const { sleep, options } = replay(respond(503), respond(503), respond(503), respond(200))
+
+    await fetchWithRetry(URL, {}, { ...options, baseDelayMs: 100, maxDelayMs: 300 })
+
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([100, 200, 300])
+  })
+
+  describe('Retry-After', () => {
+    it('waits the given number of seconds', async () => {
+      const { sleep, options } = replay(respond(429, {}, { 'Retry-After': '7' }), respond(200))
+
+      await fetchWithRetry(URL, {}, options)
+
+      expect(sleep).toHaveBeenCalledWith(7000)
+    })
+
+    it('waits until the given HTTP date', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2026-10-15T12:00:00Z'))
+      const { sleep, options } = replay(
+        respond(503, {}, { 'Retry-After': 'Thu, 15 Oct 2026 12:00:12 GMT' }),
+        respond(200)
+      )
+
+      await fetchWithRetry(URL, {}, options)
+
+      expect(sleep).toHaveBeenCalledWith(12000)
+    })
+
+    it('retries right away for a date in the past', async () => {
+      const { sleep, options } = replay(respond(503, {}, { 'Retry-After': 'Thu, 01 Jan 2015 00:00:00 GMT' }), respond(200))
+
+      await fetchWithRetry(URL, {}, options)
+
+      expect(sleep).toHaveBeenCalledWith(0)
+    })
+
+    it('is capped at maxDelayMs', async () => {
+      const { sleep, options } = replay(respond(429, {}, { 'Retry-After': '3600' }), respond(200))
+
+      await fetchWithRetry(URL, {}, { ...options, maxDelayMs: 5000 })
+
+      expect(sleep).toHaveBeenCalledWith(5000)
+    })
+
+    it('falls back to backoff when it can not be read', async () => {
+      const { sleep, options } = replay(respond(429, {}, { 'Retry-After': 'soon' }), respond(200))
+
+      await fetchWithRetry(URL, {}, { ...options, baseDelayMs: 100 })
+
+      expect(sleep).toHaveBeenCalledWith(100)
+    })
+  })
+
+  it('gives up after maxAttempts and returns the last response', async () => {
+    const last = respond(503)
+    const { fetch, sleep, options } = replay(respond(503), respond(503), last)
+
+    const response = await fetchWithRetry(URL, {}, { ...options, maxAttempts: 3 })
+
+    expect(response).toBe(last)
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(sleep).toHaveBeenCalledTimes(2)
+  })
+
+  it('tries at least once', async () => {
+    const { fetch, options } = replay(respond(503))
+
+    const response = await fetchWithRetry(URL, {}, { ...options, maxAttempts: 0 })
+
+    expect(response.status).toBe(503)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  describe('network errors', () => {
+    it('are retried', async () => {
+      const { fetch, sleep, options } = replay(new TypeError('fetch failed'), respond(200))
+
+      const response = await fetchWithRetry(URL, {}, { ...options, baseDelayMs: 100 })
+
+      expect(response.status).toBe(200)
+      expect(fetch).toHaveBeenCalledTimes(2)
+      expect(sleep).toHaveBeenCalledWith(100)
+    })
+
+    it('are thrown once the attempts run out', async () => {
+      const error = new TypeError('fetch failed')
+      const { fetch, options } = replay(new TypeError('fetch failed'), error)
+
+      await expect(fetchWithRetry(URL, {}, { ...options, maxAttempts: 2 })).rejects.toBe(error)
+      expect(fetch).toHaveBeenCalledTimes(2)
+    })
+  })
+})
@@ -0,0 +1,104 @@
+// Shared HTTP request layer with retries for rate limits and transient server errors
+
+export interface RetryOptions {
+  maxAttempts?: number // Total tries, including the first request
+  baseDelayMs?: number // Delay before the first retry; doubles with every attempt
+  maxDelayMs?: number // Upper bound for a single delay, including Retry-After
+  fetch?: typeof fetch // Injectable for tests
+  sleep?: (ms: number) => Promise<void>
+  random?: () => number
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, 'fetch' | 'sleep' | 'random'>> = {
+  maxAttempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 32 * 1000
+}
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504])
+// Google APIs report quota errors as 403 with one of these reasons
+const RATE_LIMIT_REASONS = new Set(['userRateLimitExceeded', 'rateLimitExceeded'])
+
+/**
+ * fetch() that retries 429s, 5xx responses, rate-limit 403s and network errors
+ * with exponential backoff and jitter, honoring Retry-After.
+ * Once the attempts run out the last response is returned (or the network error thrown),
+ * so callers handle a failed request exactly like a single fetch.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: RetryOptions = {}
+): Promise<Response> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_RETRY_OPTIONS.maxAttempts)
+  const doFetch = options.fetch || fetch
+  const sleep = options.sleep || defaultSleep
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response
+    try {
+      response = await doFetch(url, init)
+    } catch (error) {
+      if (attempt >= maxAttempts) throw error
+      const delay = getBackoffDelay(attempt, options)
+      console.warn(`⏳ Request failed (${error}), retrying in ${delay}ms (attempt ${attempt + 1}/${maxAttempts})`)
+      await sleep(delay)
+      continue
+    }
+
+    if (attempt >= maxAttempts || !await isRetryable(response)) {
+      return response
+    }
+
+    const delay = getRetryAfterDelay(response, options) ?? getBackoffDelay(attempt, options)
+    console.warn(`⏳ Request got ${response.status}, retrying in ${delay}ms (attempt ${attempt + 1}/${maxAttempts})`)
+    await sleep(delay)
+  }
+}
+
+async function isRetryable(response: Response): Promise<boolean> {
+  if (RETRYABLE_STATUSES.has(response.status)) return true
+  if (response.status !== 403) return false
+
+  // Read a copy so the caller can still consume the body
+  try {
+    const body = await response.clone().json()
+    const reasons: string[] = (body?.error?.errors || []).map((error: any) => error.reason)
+    return reasons.some(reason => RATE_LIMIT_REASONS.has(reason))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Exponential backoff with jitter: base * 2^(attempt - 1) plus up to one base delay at random
+ */
+function getBackoffDelay(attempt: number, options: RetryOptions): number {
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_RETRY_OPTIONS.baseDelayMs
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs
+  const random = options.random || Math.random
+
+  const delay = baseDelayMs * 2 ** (attempt - 1) + random() * baseDelayMs
+  return Math.round(Math.min(delay, maxDelayMs))
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+function getRetryAfterDelay(response: Response, options: RetryOptions): number | undefined {
+  const retryAfter = response.headers?.get('Retry-After')
+  if (!retryAfter) return undefined
+
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs
+  const seconds = Number(retryAfter)
+  const delay = Number.isNaN(seconds)
+    ? new Date(retryAfter).getTime() - Date.now()
+    : seconds * 1000
+
+  if (Number.isNaN(delay)) return undefined
+  return Math.min(Math.max(0, delay), maxDelayMs)
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
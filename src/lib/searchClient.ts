@@ -0,0 +1,278 @@
+import type {
+  FileContent,
+  PersistentSearchService,
+  RecentFiles,
+  SearchFilters,
+  SearchOptions
+} from './persistentSearch'
+import type { RankingConfig } from './ranking'
+import { isNodeEnvironment } from './storage'
+import type { DriveFile } from '~types'
+
+// PersistentSearchService methods that can be called through the worker
+export type SearchMethod =
+  | 'initialize'
+  | 'search'
+  | 'getRecentFiles'
+  | 'suggestFolders'
+  | 'suggestDrives'
+  | 'suggestPeople'
+  | 'getStats'
+  | 'getStorageUsage'
+  | 'getFilesBySource'
+  | 'removeSource'
+  | 'addFiles'
+  | 'updateFiles'
+  | 'removeFiles'
+  | 'replaceIndex'
+  | 'processChanges'
+  | 'trackFileOpen'
+  | 'resetUsage'
+  | 'getRankingConfig'
+  | 'updateRankingConfig'
+  | 'resetRankingConfig'
+  | 'getFilesNeedingContent'
+  | 'setFileContents'
+  | 'clearFileContents'
+  | 'getChangeToken'
+  | 'saveChangeToken'
+  | 'clearChangeToken'
+  | 'flush'
+
+// Calls that fill the result list; a newer one makes the previous one stale
+export const RESULT_METHODS: SearchMethod[] = ['search', 'getRecentFiles']
+
+type SearchResultOf<K extends SearchMethod> = Awaited<ReturnType<PersistentSearchService[K]>>
+
+export interface SearchWorkerRequest<K extends SearchMethod = SearchMethod> {
+  id: number
+  method: K
+  args: Parameters<PersistentSearchService[K]>
+}
+
+export interface SearchWorkerResponse {
+  id: number
+  result?: unknown
+  error?: string
+  cancelled?: boolean // A newer search arrived before this one ran
+}
+
+/**
+ * Thrown for a search that a newer search replaced before it finished
+ */
+export class SearchCancelledError extends Error {
+  constructor() {
+    super('Search was replaced by a newer one')
+    this.name = 'SearchCancelledError'
+  }
+}
+
+interface PendingCall {
+  resolve: (result: any) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Async front for the search index
+ * In the browser the index lives in a Web Worker, so loading it and searching never block
+ * the UI. In Node.js, and wherever workers are unavailable, calls go straight to searchService,
+ * which is only loaded then, so the UI never builds a second index next to the worker's.
+ * Only the latest search (or recent files list) counts: starting one rejects the previous
+ * with SearchCancelledError.
+ */
+class SearchClient {
+  private worker: Worker | null | undefined // Created on first use; null means in-process
+  private nextId: number = 1
+  private pending: Map<number, PendingCall> = new Map()
+  private latestSearchId: number | null = null
+  private localService: Promise<PersistentSearchService> | null = null
+
+  async initialize(): Promise<void> {
+    return this.call('initialize')
+  }
+
+  async search(query: string, limit: number = 20, filters?: SearchFilters, options?: SearchOptions): Promise<DriveFile[]> {
+    return this.call('search', query, limit, filters, options)
+  }
+
+  async getRecentFiles(limit?: number, filters?: SearchFilters, excludeModifiers?: string[]): Promise<RecentFiles> {
+    return this.call('getRecentFiles', limit, filters, excludeModifiers)
+  }
+
+  async suggestFolders(prefix: string, limit?: number): Promise<Array<{ name: string; path?: string }>> {
+    return this.call('suggestFolders', prefix, limit)
+  }
+
+  async suggestDrives(prefix: string, limit?: number): Promise<string[]> {
+    return this.call('suggestDrives', prefix, limit)
+  }
+
+  async suggestPeople(prefix: string, limit?: number): Promise<Array<{ displayName: string; emailAddress: string }>> {
+    return this.call('suggestPeople', prefix, limit)
+  }
+
+  async getStats(): Promise<SearchResultOf<'getStats'>> {
+    return this.call('getStats')
+  }
+
+  async getStorageUsage(): Promise<SearchResultOf<'getStorageUsage'>> {
+    return this.call('getStorageUsage')
+  }
+
+  async getFilesBySource(sourceId: string, includeUntagged?: boolean): Promise<DriveFile[]> {
+    return this.call('getFilesBySource', sourceId, includeUntagged)
+  }
+
+  async removeSource(sourceId: string, includeUntagged?: boolean): Promise<string[]> {
+    return this.call('removeSource', sourceId, includeUntagged)
+  }
+
+  async addFiles(files: DriveFile[]): Promise<void> {
+    return this.call('addFiles', files)
+  }
+
+  async updateFiles(files: DriveFile[]): Promise<void> {
+    return this.call('updateFiles', files)
+  }
+
+  async removeFiles(fileIds: string[]): Promise<void> {
+    return this.call('removeFiles', fileIds)
+  }
+
+  async replaceIndex(files: DriveFile[]): Promise<void> {
+    return this.call('replaceIndex', files)
+  }
+
+  async processChanges(changes: Parameters<PersistentSearchService['processChanges']>[0]): Promise<void> {
+    return this.call('processChanges', changes)
+  }
+
+  async trackFileOpen(fileId: string, query?: string): Promise<void> {
+    return this.call('trackFileOpen', fileId, query)
+  }
+
+  async resetUsage(): Promise<void> {
+    return this.call('resetUsage')
+  }
+
+  async getRankingConfig(): Promise<RankingConfig> {
+    return this.call('getRankingConfig')
+  }
+
+  async updateRankingConfig(changes: Partial<RankingConfig>): Promise<RankingConfig> {
+    return this.call('updateRankingConfig', changes)
+  }
+
+  async resetRankingConfig(): Promise<RankingConfig> {
+    return this.call('resetRankingConfig')
+  }
+
+  async getFilesNeedingContent(limit?: number): Promise<DriveFile[]> {
+    return this.call('getFilesNeedingContent', limit)
+  }
+
+  async setFileContents(contents: FileContent[]): Promise<void> {
+    return this.call('setFileContents', contents)
+  }
+
+  async clearFileContents(): Promise<void> {
+    return this.call('clearFileContents')
+  }
+
+  async getChangeToken(scope?: string): Promise<string | null> {
+    return this.call('getChangeToken', scope)
+  }
+
+  async saveChangeToken(token: string, scope?: string): Promise<void> {
+    return this.call('saveChangeToken', token, scope)
+  }
+
+  async clearChangeToken(scope?: string): Promise<void> {
+    return this.call('clearChangeToken', scope)
+  }
+
+  async flush(): Promise<void> {
+    return this.call('flush')
+  }
+
+  private async call<K extends SearchMethod>(
+    method: K,
+    ...args: Parameters<PersistentSearchService[K]>
+  ): Promise<SearchResultOf<K>> {
+    const worker = this.getWorker()
+    if (!worker) {
+      const searchService = await this.getLocalService()
+      const run = searchService[method] as (...args: unknown[]) => unknown
+      return run.apply(searchService, args) as SearchResultOf<K>
+    }
+
+    const id = this.nextId++
+    if (RESULT_METHODS.includes(method)) {
+      this.cancelSearch()
+      this.latestSearchId = id
+    }
+
+    return new Promise<SearchResultOf<K>>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject })
+      const request: SearchWorkerRequest<K> = { id, method, args }
+      worker.postMessage(request)
+    })
+  }
+
+  private getLocalService(): Promise<PersistentSearchService> {
+    this.localService ??= import('./persistentSearch').then(module => module.searchService)
+    return this.localService
+  }
+
+  private cancelSearch(): void {
+    if (this.latestSearchId === null) return
+    this.pending.get(this.latestSearchId)?.reject(new SearchCancelledError())
+    this.pending.delete(this.latestSearchId)
+    this.latestSearchId = null
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker !== undefined) return this.worker
+
+    this.worker = null
+    if (isNodeEnvironment() || typeof Worker === 'undefined') return null
+
+    try {
+      const worker = new Worker(new URL('./searchWorker.ts', import.meta.url), { type: 'module' })
+      worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => this.handleResponse(event.data)
+      worker.onerror = (event) => {
+        console.error('❌ Search worker failed:', event.message)
+      }
+      this.worker = worker
+
+      // The worker can't see the page, so save pending index changes when it's hidden or closed
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') this.flush()
+      })
+      window.addEventListener('pagehide', () => this.flush())
+    } catch (error) {
+      console.warn('⚠️ Search worker unavailable, searching on the main thread:', error)
+    }
+    return this.worker
+  }
+
+  private handleResponse(response: SearchWorkerResponse): void {
+    const call = this.pending.get(response.id)
+    if (!call) return // Cancelled on this side already
+    this.pending.delete(response.id)
+    if (response.id === this.latestSearchId) {
+      this.latestSearchId = null
+    }
+
+    if (response.cancelled) {
+      call.reject(new SearchCancelledError())
+    } else if (response.error !== undefined) {
+      call.reject(new Error(response.error))
+    } else {
+      call.resolve(response.result)
+    }
+  }
+}
+
+// Export singleton instance
+export const searchClient = new SearchClient()
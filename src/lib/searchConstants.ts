@@ -0,0 +1,8 @@
+// Values shared with code that must not load the search index itself, such as the UI,
+// which talks to the index in the search worker
+
+// Name shown for files outside any shared drive
+export const MY_DRIVE_NAME = 'My Drive'
+
+// Content indexing: body text kept per file
+export const MAX_CONTENT_LENGTH = 10000
@@ -0,0 +1,38 @@
+// Web Worker that owns the search index, so loading and searching stay off the UI thread
+import { searchService } from './persistentSearch'
+import { RESULT_METHODS, type SearchWorkerRequest, type SearchWorkerResponse } from './searchClient'
+
+let latestSearchId = 0
+
+self.addEventListener('message', (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data
+
+  if (RESULT_METHODS.includes(request.method)) {
+    // Run searches after the messages already queued, so a burst of keystrokes
+    // only searches for the last one
+    latestSearchId = request.id
+    setTimeout(() => {
+      if (request.id !== latestSearchId) {
+        reply({ id: request.id, cancelled: true })
+      } else {
+        handleRequest(request)
+      }
+    })
+    return
+  }
+
+  handleRequest(request)
+})
+
+async function handleRequest({ id, method, args }: SearchWorkerRequest): Promise<void> {
+  try {
+    const run = searchService[method] as (...args: unknown[]) => unknown
+    reply({ id, result: await run.apply(searchService, args) })
+  } catch (error) {
+    reply({ id, error: error instanceof Error ? error.message : String(error) })
+  }
+}
+
+function reply(response: SearchWorkerResponse): void {
+  self.postMessage(response)
+}
@@ -0,0 +1,67 @@
+import { googleDriveService } from './googleDrive'
+import type { DriveFile, SourceProvider, SourceSpace } from '~types'
+
+// Files indexed before source providers existed all came from Google Drive
+export const DEFAULT_SOURCE_ID = googleDriveService.id
+
+/**
+ * Registry of every source that can be indexed
+ * The indexing job and change sync iterate over the registered providers
+ */
+class SourceRegistry {
+  private providers: Map<string, SourceProvider> = new Map()
+
+  register(provider: SourceProvider): void {
+    this.providers.set(provider.id, provider)
+  }
+
+  unregister(sourceId: string): void {
+    this.providers.delete(sourceId)
+  }
+
+  get(sourceId: string = DEFAULT_SOURCE_ID): SourceProvider | undefined {
+    return this.providers.get(sourceId)
+  }
+
+  getAll(): SourceProvider[] {
+    return [...this.providers.values()]
+  }
+
+  getAuthenticated(): SourceProvider[] {
+    return this.getAll().filter(provider => provider.isAuthenticated())
+  }
+
+  /**
+   * Find the provider that indexed a file
+   */
+  getForFile(file: DriveFile): SourceProvider | undefined {
+    return this.get(file.source || DEFAULT_SOURCE_ID)
+  }
+
+  /**
+   * Link that opens the file in its source
+   */
+  getOpenUrl(file: DriveFile): string | undefined {
+    return this.getForFile(file)?.getOpenUrl(file) || file.webViewLink
+  }
+
+  /**
+   * Stamp a file from a provider with its source and category before indexing
+   * Files from a named space (e.g. a shared drive) also get the space name
+   */
+  normalizeFile(provider: SourceProvider, file: DriveFile, space?: SourceSpace): DriveFile {
+    const normalized: DriveFile = {
+      ...file,
+      source: provider.id,
+      fileType: provider.getFileType(file)
+    }
+    if (space?.id) {
+      normalized.driveName = space.name
+    }
+    return normalized
+  }
+}
+
+// Export singleton instance with the built-in providers
+export const sourceRegistry = new SourceRegistry()
+sourceRegistry.register(googleDriveService)
@@ -22,7 +22,10 @@ export class NodeStorage implements StorageInterface {
 
   async write(filePath: string, data: string): Promise<void> {
     console.log(`💾 Writing to file: ${filePath} (${data.length} chars)`)
-    await fs.writeFile(filePath, data, 'utf8')
+    // Write next to the target and rename over it, so a crash never leaves a half-written file
+    const tempPath = `${filePath}.tmp`
+    await fs.writeFile(tempPath, data, 'utf8')
+    await fs.rename(tempPath, filePath)
     console.log(`✅ File written successfully: ${filePath}`)
   }
 
@@ -30,6 +33,10 @@ export class NodeStorage implements StorageInterface {
     await fs.mkdir(dirPath, { recursive: true })
   }
 
+  async delete(filePath: string): Promise<void> {
+    await fs.rm(filePath, { force: true })
+  }
+
   getPath(...segments: string[]): string {
     return path.join(...segments)
   }
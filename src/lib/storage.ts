@@ -5,26 +5,72 @@ export interface StorageInterface {
   read(key: string): Promise<string>
   write(key: string, data: string): Promise<void>
   ensureDirectory(path: string): Promise<void>
+  delete(key: string): Promise<void>
   clear?(): Promise<void>
+  // Record stores, where supported (IndexedDB); every user only sees their own records
+  readRecords?<T>(userId: string, store: RecordStoreName, keys?: Array<string | number>): Promise<T[]>
+  writeRecords?(userId: string, writes: RecordWrite[], values?: Record<string, string | null>): Promise<void>
+  estimate?(): Promise<StorageUsage | null>
+}
+
+// Object stores that keep one record per item instead of one value per key,
+// shared by all users: records are keyed by the user ID plus a key of their own
+export const FILES_STORE = 'user-files' // File metadata, keyed by file ID
+export const INDEX_CHUNKS_STORE = 'user-index-chunks' // Serialized search index, keyed by chunk hash
+export const PREVIOUS_FILES_STORE = 'user-previous-files' // Files as the save before the last left them, keyed by file ID
+// Version 2 stores, keyed without a user; only read to move an index saved in them
+export const LEGACY_FILES_STORE = 'files'
+export const LEGACY_INDEX_CHUNKS_STORE = 'index-chunks'
+export type RecordStoreName =
+  | typeof FILES_STORE
+  | typeof INDEX_CHUNKS_STORE
+  | typeof PREVIOUS_FILES_STORE
+  | typeof LEGACY_FILES_STORE
+  | typeof LEGACY_INDEX_CHUNKS_STORE
+
+const LEGACY_RECORD_STORES: ReadonlySet<string> = new Set([LEGACY_FILES_STORE, LEGACY_INDEX_CHUNKS_STORE])
+
+export interface RecordWrite {
+  store: RecordStoreName
+  clear?: boolean // Remove every record of the user before writing
+  put?: object[] // Records carry their own key: id for files, key for index chunks
+  delete?: Array<string | number>
+}
+
+export interface StorageUsage {
+  usage: number // Bytes used by this origin
+  quota: number // Bytes available to this origin
 }
 
 // Browser implementation using IndexedDB for better performance with large data
 class BrowserStorage implements StorageInterface {
   private dbName = 'browser-spotlight'
-  private dbVersion = 1
+  private dbVersion = 4
   private storeName = 'search-data'
-  private db: IDBDatabase | null = null
+  private db: Promise<IDBDatabase> | null = null
 
   private async getDB(): Promise<IDBDatabase> {
     if (this.db) return this.db
 
-    return new Promise((resolve, reject) => {
+    this.db = new Promise((resolve, reject) => {
       const request = indexedDB.open(this.dbName, this.dbVersion)
       
-      request.onerror = () => reject(request.error)
+      request.onerror = () => {
+        this.db = null
+        reject(request.error)
+      }
       request.onsuccess = () => {
-        this.db = request.result
-        resolve(request.result)
+        const db = request.result
+        // Another tab is upgrading the database: close so it isn't blocked; the next call reopens
+        db.onversionchange = () => {
+          db.close()
+          this.db = null
+        }
+        resolve(db)
+      }
+      request.onblocked = () => {
+        // The open goes ahead once the tabs still on the old version close their connection
+        console.warn('⏳ Search storage upgrade is waiting for other open tabs to close')
       }
       
       request.onupgradeneeded = (event) => {
@@ -32,8 +78,21 @@ class BrowserStorage implements StorageInterface {
         if (!db.objectStoreNames.contains(this.storeName)) {
           db.createObjectStore(this.storeName)
         }
+        // Version 2 stores (files, index-chunks) are kept until an index saved in them is moved
+        if (!db.objectStoreNames.contains(FILES_STORE)) {
+          const files = db.createObjectStore(FILES_STORE, { keyPath: ['userId', 'id'] })
+          files.createIndex('mimeType', ['userId', 'mimeType'])
+          files.createIndex('modifiedTime', ['userId', 'modifiedTime'])
+        }
+        if (!db.objectStoreNames.contains(INDEX_CHUNKS_STORE)) {
+          db.createObjectStore(INDEX_CHUNKS_STORE, { keyPath: ['userId', 'key'] })
+        }
+        if (!db.objectStoreNames.contains(PREVIOUS_FILES_STORE)) {
+          db.createObjectStore(PREVIOUS_FILES_STORE, { keyPath: ['userId', 'id'] })
+        }
       }
     })
+    return this.db
   }
 
   async exists(key: string): Promise<boolean> {
@@ -90,6 +149,93 @@ class BrowserStorage implements StorageInterface {
     // No-op in browser - IndexedDB doesn't have directories
   }
 
+  async delete(key: string): Promise<void> {
+    const db = await this.getDB()
+    const transaction = db.transaction([this.storeName], 'readwrite')
+    const store = transaction.objectStore(this.storeName)
+    
+    return new Promise((resolve, reject) => {
+      const request = store.delete(key)
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve()
+    })
+  }
+
+  /**
+   * Every record of the user in the store, or only those with the given keys that exist
+   */
+  async readRecords<T>(userId: string, store: RecordStoreName, keys?: Array<string | number>): Promise<T[]> {
+    const db = await this.getDB()
+    const transaction = db.transaction([store], 'readonly')
+    const objectStore = transaction.objectStore(store)
+    const legacy = LEGACY_RECORD_STORES.has(store)
+    const withoutUser = (records: any[]): T[] => legacy ? records : records.map(({ userId: _, ...record }) => record)
+
+    if (keys) {
+      const records: any[] = []
+      keys.forEach(key => {
+        const request = objectStore.get(legacy ? key : [userId, key])
+        request.onsuccess = () => {
+          if (request.result !== undefined) records.push(request.result)
+        }
+      })
+      return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve(withoutUser(records))
+        transaction.onerror = () => reject(transaction.error)
+        transaction.onabort = () => reject(transaction.error)
+      })
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = objectStore.getAll(legacy ? undefined : userRange(userId))
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(withoutUser(request.result))
+    })
+  }
+
+  /**
+   * Apply record changes and key/value writes (null deletes) in one transaction,
+   * so either all of them land or none do
+   * Clearing a version 2 store removes every record in it, whoever saved them
+   */
+  async writeRecords(userId: string, writes: RecordWrite[], values: Record<string, string | null> = {}): Promise<void> {
+    const db = await this.getDB()
+    const storeNames = [this.storeName, ...writes.map(write => write.store)]
+    const transaction = db.transaction(storeNames, 'readwrite')
+
+    for (const write of writes) {
+      const store = transaction.objectStore(write.store)
+      if (LEGACY_RECORD_STORES.has(write.store)) {
+        if (write.clear) store.clear()
+        continue
+      }
+      if (write.clear) store.delete(userRange(userId))
+      write.delete?.forEach(key => store.delete([userId, key]))
+      write.put?.forEach(record => store.put({ ...record, userId }))
+    }
+
+    const store = transaction.objectStore(this.storeName)
+    Object.entries(values).forEach(([key, value]) => {
+      if (value === null) {
+        store.delete(key)
+      } else {
+        store.put(value, key)
+      }
+    })
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  async estimate(): Promise<StorageUsage | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+    return { usage, quota }
+  }
+
   async clear(): Promise<void> {
     const db = await this.getDB()
     const transaction = db.transaction([this.storeName], 'readwrite')
@@ -103,9 +249,15 @@ class BrowserStorage implements StorageInterface {
   }
 }
 
+/**
+ * Keys of every record of the user: [userId, key] sorts before [userId, []] for any string or number key
+ */
+function userRange(userId: string): IDBKeyRange {
+  return IDBKeyRange.bound([userId], [userId, []])
+}
 
 // Environment detection and factory
-function isNodeEnvironment(): boolean {
+export function isNodeEnvironment(): boolean {
   // In Next.js, we want to use browser storage since it runs in the browser
   // Only use Node.js storage for actual server-side or CLI execution
   return typeof process !== 'undefined' && 
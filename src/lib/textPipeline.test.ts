@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createTextPipeline,
+  foldDiacritics,
+  isBigramScript,
+  lowercase,
+  normalizeWithOffsets,
+  splitWords,
+  toTerms
+} from './textPipeline'
+
+describe('splitWords', () => {
+  it('splits on spaces and punctuation', () => {
+    expect(splitWords('Q3 budget, final.')).toEqual(['Q3', 'budget', 'final'])
+  })
+
+  it.each([
+    ['brackets and slashes', '[draft]/notes (v2)', ['draft', 'notes', 'v2']],
+    ['underscores and dashes', 'team_offsite-2026', ['team', 'offsite', '2026']],
+    ['dots', 'report.final.docx', ['report', 'final', 'docx']],
+    ['apostrophes', "Alex's notes", ['Alex', 's', 'notes']]
+  ])('splits on %s', (_, text, words) => {
+    expect(splitWords(text)).toEqual(words)
+  })
+
+  it('treats emoji as separators', () => {
+    expect(splitWords('notes🎉party')).toEqual(['notes', 'party'])
+    expect(splitWords('🚀 launch 👍🏽')).toEqual(['launch'])
+  })
+
+  it('keeps combining marks in their word', () => {
+    expect(splitWords('Résumé draft')).toEqual(['Résumé', 'draft'])
+  })
+
+  describe('CJK', () => {
+    it('indexes runs as overlapping bigrams', () => {
+      expect(splitWords('会议记录')).toEqual(['会议', '议记', '记录'])
+    })
+
+    it('keeps a single character', () => {
+      expect(splitWords('表 2026')).toEqual(['表', '2026'])
+    })
+
+    it('splits runs from surrounding letters and digits', () => {
+      expect(splitWords('Q3会议记录v2')).toEqual(['Q3', '会议', '议记', '记录', 'v2'])
+    })
+
+    it.each([
+      ['Japanese', 'かいぎ', ['かい', 'いぎ']],
+      ['Katakana', 'データ', ['デー', 'ータ']],
+      ['marks shared by the scripts', '締め切り々', ['締め', 'め切', '切り', 'り々']],
+      ['Korean', '회의록', ['회의', '의록']]
+    ])('covers %s', (_, text, bigrams) => {
+      expect(splitWords(text)).toEqual(bigrams)
+    })
+  })
+})
+
+describe('foldDiacritics', () => {
+  it.each([
+    ['résumé', 'resume'],
+    ['café', 'cafe'],
+    ['naïve', 'naive'],
+    ['ångström', 'angstrom'],
+    ['çedille', 'cedille'],
+    ['ñandú', 'nandu']
+  ])('%s -> %s', (term, folded) => {
+    expect(foldDiacritics(term)).toBe(folded)
+  })
+
+  it('folds decomposed accents', () => {
+    expect(foldDiacritics('re\u0301sume\u0301')).toBe('resume')
+  })
+
+  it.each([
+    ['straße', 'strasse'],
+    ['ærø', 'aero'],
+    ['œuvre', 'oeuvre'],
+    ['łódź', 'lodz'],
+    ['þing', 'thing']
+  ])('folds the letter in %s', (term, folded) => {
+    expect(foldDiacritics(term)).toBe(folded)
+  })
+
+  it('keeps marks that change the letter', () => {
+    expect(foldDiacritics('が')).toBe('が')
+    expect(foldDiacritics('회의')).toBe('회의')
+  })
+})
+
+describe('toTerms', () => {
+  it('lowercases and folds every word', () => {
+    expect(toTerms('Straße Œuvre Ærø Łódź')).toEqual(['strasse', 'oeuvre', 'aero', 'lodz'])
+  })
+
+  it('matches accented and plain spellings', () => {
+    expect(toTerms('RÉSUMÉ')).toEqual(toTerms('resume'))
+  })
+
+  it('returns nothing for punctuation and emoji', () => {
+    expect(toTerms('- 🎉 ...')).toEqual([])
+  })
+})
+
+describe('createTextPipeline', () => {
+  it('runs the filters in order', () => {
+    const pipeline = createTextPipeline({ termFilters: [lowercase, term => `${term}!`] })
+    expect(toTerms('Budget Q3', pipeline)).toEqual(['budget!', 'q3!'])
+  })
+
+  it('stops at a filter that drops the term', () => {
+    const stopWords = new Set(['the'])
+    const pipeline = createTextPipeline({
+      termFilters: [lowercase, term => (stopWords.has(term) ? null : term), foldDiacritics]
+    })
+    expect(toTerms('The Café', pipeline)).toEqual(['cafe'])
+  })
+
+  it('takes a custom tokenizer', () => {
+    const pipeline = createTextPipeline({ tokenize: text => text.split(',') })
+    expect(toTerms('Q3 Budget,Notes', pipeline)).toEqual(['q3 budget', 'notes'])
+  })
+})
+
+describe('normalizeWithOffsets', () => {
+  it('maps every character back to the original text', () => {
+    expect(normalizeWithOffsets('Résumé')).toEqual({ normalized: 'resume', offsets: [0, 1, 2, 3, 4, 5] })
+  })
+
+  it('maps expanded letters to the letter they came from', () => {
+    expect(normalizeWithOffsets('Maße')).toEqual({ normalized: 'masse', offsets: [0, 1, 2, 2, 3] })
+  })
+
+  it('drops lone combining accents', () => {
+    expect(normalizeWithOffsets('Re\u0301s')).toEqual({ normalized: 'res', offsets: [0, 1, 3] })
+  })
+
+  it('counts surrogate pairs as two characters', () => {
+    const { normalized, offsets } = normalizeWithOffsets('🎉 Café')
+    expect(normalized.slice(-4)).toBe('cafe')
+    expect(offsets.slice(-4)).toEqual([3, 4, 5, 6])
+  })
+})
+
+describe('isBigramScript', () => {
+  it('covers Han, Kana and Hangul', () => {
+    expect(['会', 'か', 'カ', '회'].every(isBigramScript)).toBe(true)
+  })
+
+  it('excludes other scripts', () => {
+    expect(['a', 'é', 'ж', '1', '🎉'].some(isBigramScript)).toBe(false)
+  })
+})
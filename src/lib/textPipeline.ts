@@ -0,0 +1,118 @@
+// Splitting and normalizing text into search terms, shared by indexing and querying:
+// the index, query matching, phrase checks and highlighting all see the same terms
+
+export type Tokenizer = (text: string) => string[]
+export type TermFilter = (term: string) => string | null // null drops the term
+
+export interface TextPipeline {
+  tokenize: Tokenizer
+  processTerm: (term: string) => string | null
+}
+
+// Words are runs of letters, digits and combining marks; everything else separates them
+// (spaces, punctuation, brackets, slashes, emoji, ...)
+const WORD_REGEX = /[\p{L}\p{N}\p{M}]+/gu
+// Scripts written without spaces between words; runs of them are indexed as bigrams
+// Script extensions also cover the marks these scripts share, like the long vowel in データ
+const CJK_RUN_REGEX = /([\p{scx=Han}\p{scx=Hiragana}\p{scx=Katakana}\p{scx=Hangul}]+)/u
+// Diacritics that fold away ("é" -> "e"); other marks, like Japanese voicing marks, carry meaning
+const DIACRITIC_REGEX = /[\u0300-\u036f]/g
+// Letters that don't decompose into a base letter and a diacritic
+const LETTER_FOLDS: Record<string, string> = {
+  'ß': 'ss',
+  'æ': 'ae',
+  'œ': 'oe',
+  'ø': 'o',
+  'ł': 'l',
+  'đ': 'd',
+  'ð': 'd',
+  'þ': 'th',
+  'ı': 'i'
+}
+const LETTER_FOLD_REGEX = new RegExp(`[${Object.keys(LETTER_FOLDS).join('')}]`, 'g')
+
+/**
+ * Split text into words, and CJK runs into overlapping bigrams ("会议记录" -> 会议 议记 记录)
+ * so a search for any part of them matches
+ */
+export function splitWords(text: string): string[] {
+  const tokens: string[] = []
+  for (const word of text.match(WORD_REGEX) || []) {
+    for (const part of word.split(CJK_RUN_REGEX)) {
+      if (!part) continue
+      tokens.push(...(CJK_RUN_REGEX.test(part) ? toBigrams(part) : [part]))
+    }
+  }
+  return tokens
+}
+
+function toBigrams(run: string): string[] {
+  const chars = [...run]
+  if (chars.length === 1) return chars
+  return chars.slice(0, -1).map((char, i) => char + chars[i + 1])
+}
+
+export const lowercase: TermFilter = term => term.toLowerCase()
+
+/**
+ * "Résumé" and "resume" become the same term; expects lowercase input
+ */
+export const foldDiacritics: TermFilter = term =>
+  term
+    .normalize('NFD')
+    .replace(DIACRITIC_REGEX, '')
+    .normalize('NFC') // Recompose what folding leaves alone, e.g. Hangul syllables
+    .replace(LETTER_FOLD_REGEX, letter => LETTER_FOLDS[letter])
+
+/**
+ * Chain a tokenizer and term filters into a pipeline; a term dropped by one filter skips the rest
+ */
+export function createTextPipeline({
+  tokenize = splitWords,
+  termFilters = [lowercase, foldDiacritics]
+}: { tokenize?: Tokenizer; termFilters?: TermFilter[] } = {}): TextPipeline {
+  return {
+    tokenize,
+    processTerm: term => termFilters.reduce<string | null>((current, filter) => current && filter(current), term) || null
+  }
+}
+
+// The pipeline of the search index
+export const textPipeline = createTextPipeline()
+
+/**
+ * Terms of the text, in order, the way the index sees them
+ */
+export function toTerms(text: string, pipeline: TextPipeline = textPipeline): string[] {
+  return pipeline.tokenize(text)
+    .map(token => pipeline.processTerm(token))
+    .filter((term): term is string => !!term)
+}
+
+/**
+ * The text with every character normalized like a term, and for each character of the
+ * result the offset of the character it came from, so matches of terms can be found in the
+ * original text ("Résumé" -> "resume")
+ */
+export function normalizeWithOffsets(
+  text: string,
+  pipeline: TextPipeline = textPipeline
+): { normalized: string; offsets: number[] } {
+  let normalized = ''
+  const offsets: number[] = []
+  let offset = 0
+  for (const char of text) {
+    const folded = pipeline.processTerm(char) ?? '' // e.g. a combining accent on its own
+    normalized += folded
+    for (let i = 0; i < folded.length; i++) offsets.push(offset)
+    offset += char.length
+  }
+  return { normalized, offsets }
+}
+
+/**
+ * Whether the character belongs to a script indexed as bigrams, where terms can start anywhere
+ */
+export function isBigramScript(char: string): boolean {
+  return CJK_RUN_REGEX.test(char)
+}
@@ -0,0 +1,178 @@
+import { createStorage, joinPath, getCurrentDirectory, type StorageInterface } from './storage'
+
+// A pick made a month ago counts half as much as one made today
+const QUERY_SELECTION_HALF_LIFE_DAYS = 30
+// Only the strongest queries are kept per file, so the store can't grow without bound
+const MAX_QUERIES_PER_FILE = 20
+
+export interface QuerySelection {
+  score: number // Picks for the query, each decayed by its age as of lastSelectedTime
+  lastSelectedTime: string
+}
+
+export interface FileUsage {
+  openCount: number
+  lastOpenedTime: string
+  queries?: Record<string, QuerySelection> // Normalized query -> picks of the file from its results
+}
+
+/**
+ * Which files the user opens, kept apart from the index so re-indexing and fresh
+ * Drive metadata never reset it. Every open is written right away.
+ */
+export class UsageStore {
+  private storage: StorageInterface
+  private usageKey: string
+  private indexDir?: string
+  private usage: Map<string, FileUsage> = new Map()
+  private saveQueue: Promise<void> = Promise.resolve()
+
+  constructor(userId: string = 'default') {
+    this.storage = createStorage()
+
+    // Same layout as the search index: files in Node.js, keys in the browser
+    if (typeof process !== 'undefined' && process.versions?.node) {
+      this.indexDir = joinPath(getCurrentDirectory(), 'data', 'indexes')
+      this.usageKey = joinPath(this.indexDir, `${userId}-usage.json`)
+    } else {
+      this.usageKey = `${userId}-usage.json`
+    }
+  }
+
+  /**
+   * Load saved usage; returns false when nothing has been saved yet
+   */
+  async load(): Promise<boolean> {
+    try {
+      if (!await this.storage.exists(this.usageKey)) return false
+      const entries: Array<[string, FileUsage]> = JSON.parse(await this.storage.read(this.usageKey))
+      this.usage = new Map(entries.map(([fileId, usage]) => [fileId, upgradeUsage(usage)]))
+      return true
+    } catch (error) {
+      console.warn('⚠️ Failed to read file usage, starting fresh:', error)
+      return false
+    }
+  }
+
+  get(fileId: string): FileUsage | undefined {
+    return this.usage.get(fileId)
+  }
+
+  entries(): IterableIterator<[string, FileUsage]> {
+    return this.usage.entries()
+  }
+
+  /**
+   * How strongly the file is tied to a query, from the times it was picked for that query
+   * or one sharing its prefix ("bud" and "budget"), fading with age
+   */
+  queryAffinity(fileId: string, query: string, now: Date = new Date()): number {
+    const queries = this.usage.get(fileId)?.queries
+    const normalizedQuery = normalizeQuery(query)
+    if (!queries || !normalizedQuery) return 0
+
+    let affinity = 0
+    for (const [pickedQuery, selection] of Object.entries(queries)) {
+      const similarity = prefixSimilarity(normalizedQuery, pickedQuery)
+      if (similarity > 0) {
+        affinity += similarity * decayedScore(selection, now)
+      }
+    }
+    return affinity
+  }
+
+  /**
+   * Count an open of the file, and the query it was picked for if there was one
+   */
+  async recordOpen(fileId: string, query?: string, openedAt: Date = new Date()): Promise<void> {
+    const usage = this.usage.get(fileId) || { openCount: 0, lastOpenedTime: openedAt.toISOString() }
+    usage.openCount++
+    usage.lastOpenedTime = openedAt.toISOString()
+
+    const normalizedQuery = query ? normalizeQuery(query) : ''
+    if (normalizedQuery) {
+      const previous = usage.queries?.[normalizedQuery]
+      const queries = {
+        ...usage.queries,
+        [normalizedQuery]: {
+          score: (previous ? decayedScore(previous, openedAt) : 0) + 1,
+          lastSelectedTime: openedAt.toISOString()
+        }
+      }
+      usage.queries = Object.fromEntries(
+        Object.entries(queries)
+          .sort(([, a], [, b]) => decayedScore(b, openedAt) - decayedScore(a, openedAt))
+          .slice(0, MAX_QUERIES_PER_FILE)
+      )
+    }
+
+    this.usage.set(fileId, usage)
+    await this.save()
+  }
+
+  /**
+   * Bring in usage recorded some other way (e.g. on index entries before this store existed)
+   */
+  async import(entries: Array<[string, FileUsage]>): Promise<void> {
+    if (entries.length === 0) return
+    entries.forEach(([fileId, usage]) => this.usage.set(fileId, usage))
+    await this.save()
+  }
+
+  async reset(): Promise<void> {
+    this.usage.clear()
+    await this.save()
+    console.log('🧹 Cleared file usage history')
+  }
+
+  private async save(): Promise<void> {
+    // One write at a time, so an older snapshot never lands after a newer one
+    this.saveQueue = this.saveQueue.then(async () => {
+      try {
+        if (this.indexDir) {
+          await this.storage.ensureDirectory(this.indexDir)
+        }
+        await this.storage.write(this.usageKey, JSON.stringify([...this.usage.entries()]))
+      } catch (error) {
+        console.error('❌ Failed to save file usage:', error)
+      }
+    })
+    return this.saveQueue
+  }
+}
+
+function decayedScore(selection: QuerySelection, now: Date): number {
+  const days = Math.max(0, now.getTime() - new Date(selection.lastSelectedTime).getTime()) / (1000 * 60 * 60 * 24)
+  return selection.score * Math.pow(0.5, days / QUERY_SELECTION_HALF_LIFE_DAYS)
+}
+
+/**
+ * 1 for the same query, the share of the longer one covered when one is a prefix of the other,
+ * 0 otherwise
+ */
+function prefixSimilarity(query: string, pickedQuery: string): number {
+  const [shorter, longer] = query.length <= pickedQuery.length ? [query, pickedQuery] : [pickedQuery, query]
+  return longer.startsWith(shorter) ? shorter.length / longer.length : 0
+}
+
+/**
+ * Usage saved before query picks decayed kept a plain count per query
+ */
+function upgradeUsage(usage: FileUsage): FileUsage {
+  if (!usage.queries) return usage
+  const queries = usage.queries as Record<string, QuerySelection | number>
+  return {
+    ...usage,
+    queries: Object.fromEntries(Object.entries(queries).map(([query, selection]) => [
+      query,
+      typeof selection === 'number' ? { score: selection, lastSelectedTime: usage.lastOpenedTime } : selection
+    ]))
+  }
+}
+
+/**
+ * Queries count as the same when they only differ in case or spacing
+ */
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ')
+}
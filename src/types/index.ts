@@ -16,6 +16,51 @@ export interface DriveFile {
     displayName: string
     emailAddress: string
   }
+  driveId?: string // Set for files in a shared drive
+  driveName?: string // Name of that shared drive, filled in by the indexer
+  source?: string // ID of the source provider that indexed the file; Google Drive when missing
+  fileType?: FileTypeFilter // Category assigned by the source provider
+  path?: string // Folder chain above the file, e.g. "Team / Q3 Planning / Budgets"; filled in by the index
+  snippet?: string // Passage of the file's text that matched, on search results
+  matches?: SearchMatch[] // Why the file is a search result
+  explanation?: ScoreExplanation // Score breakdown, when the search asked for one
+}
+
+// Part of an indexed file that a search term matched
+export type MatchField = 'name' | 'initials' | 'path' | 'type' | 'content'
+
+export interface SearchMatch {
+  term: string // Indexed term that matched, e.g. "budget" for a search for "budgt"
+  fields: MatchField[]
+}
+
+export interface ScoreBoost {
+  reason: string // e.g. "Name starts with the query"
+  value: number
+}
+
+// How a search result's score came about: score = relevance × documentBoost
+export interface ScoreExplanation {
+  score: number
+  relevance: number // Text match score from the index, with the field weights applied
+  documentBoost: number // 1 plus the boosts below
+  boosts: ScoreBoost[]
+}
+
+// File categories shared by every source
+export type FileTypeFilter = 
+  | 'documents' 
+  | 'spreadsheets' 
+  | 'presentations' 
+  | 'pdfs' 
+  | 'folders' 
+  | 'images' 
+  | 'videos' 
+  | 'audio'
+
+export interface SharedDrive {
+  id: string
+  name: string
 }
 
 export interface SearchResult {
@@ -28,6 +73,7 @@ export interface FileSearchQuery {
   mimeType?: string
   maxResults?: number
   pageToken?: string
+  driveId?: string // Search a single shared drive instead of My Drive
 }
 
 export interface AuthState {
@@ -35,6 +81,8 @@ export interface AuthState {
   accessToken?: string
   refreshToken?: string
   expiresAt?: number
+  needsReauth?: boolean // Silent refresh failed; the user has to sign in again
+  email?: string // Google account the token belongs to
 }
 
 export interface SearchState {
@@ -53,4 +101,39 @@ export interface DriveService {
   getFileMetadata(fileId: string): Promise<DriveFile>
   openFile(fileId: string): void
   isAuthenticated(): boolean
-}
\ No newline at end of file
+}
+
+export interface SourceChange {
+  fileId: string
+  removed: boolean
+  file?: DriveFile
+}
+
+export interface SourceChangesPage {
+  changes: SourceChange[]
+  nextPageToken?: string
+  newStartPageToken?: string // Present on the last page; use it for the next sync
+}
+
+// A top-level area of a source with its own listing and change log,
+// e.g. My Drive or a shared drive. The default space has no ID.
+export interface SourceSpace {
+  id?: string
+  name: string
+}
+
+// Anything that can feed files into the search index (Google Drive, OneDrive, GitHub, ...)
+export interface SourceProvider {
+  id: string // Stable identifier stored on indexed files, e.g. 'google-drive'
+  name: string
+  icon: string
+  account?: string // Signed-in account, for sources that can connect several
+  isAuthenticated(): boolean
+  listSpaces(): Promise<SourceSpace[]>
+  listFiles(pageToken?: string, spaceId?: string): Promise<SearchResult>
+  getStartPageToken(spaceId?: string): Promise<string>
+  getChanges(pageToken: string, spaceId?: string): Promise<SourceChangesPage>
+  getOpenUrl(file: DriveFile): string
+  getFileType(file: DriveFile): FileTypeFilter | undefined
+  getFileContent?(file: DriveFile): Promise<string | null> // Plain text for full-text search; null when the file has none
+}
@@ -0,0 +1,15 @@
+import path from "path"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: [
+      { find: /^~(.*)$/, replacement: path.resolve(__dirname, "src/$1") },
+      { find: /^@\/(.*)$/, replacement: path.resolve(__dirname, "src/$1") }
+    ]
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node"
+  }
+})